@@ -5,6 +5,11 @@ import { SupabaseModule } from './supabase/supabase.module';
 import { ScrapingModule } from './scraping/scraping.module';
 import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule } from '@nestjs/config';
+import { HeroesModule } from './heroes/heroes.module';
+import { NewsModule } from './news/news.module';
+import { HistoryModule } from './history/history.module';
+import { PatchesModule } from './patches/patches.module';
+import { SearchModule } from './search/search.module';
 
 @Module({
   imports: [
@@ -14,6 +19,11 @@ import { ConfigModule } from '@nestjs/config';
     ScheduleModule.forRoot(),
     SupabaseModule,
     ScrapingModule,
+    HeroesModule,
+    NewsModule,
+    HistoryModule,
+    PatchesModule,
+    SearchModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,60 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { AuditService } from './audit.service';
+import { Principal, Role } from './principal';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let results: Array<{ data: any; count?: number; error: any }>;
+  const query: Record<string, jest.Mock> = {};
+  const principal: Principal = {
+    name: 'ci',
+    role: Role.Admin,
+    method: 'api-key',
+  };
+
+  beforeEach(async () => {
+    results = [];
+    for (const method of ['from', 'select', 'insert', 'order', 'range']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve(results.shift() ?? { data: null, error: null }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should record who did what', async () => {
+    await service.record(principal, 'trigger-heroes', 'job-1');
+
+    expect(query.from).toHaveBeenCalledWith('audit_log');
+    expect(query.insert).toHaveBeenCalledWith({
+      actor: 'ci',
+      role: Role.Admin,
+      auth_method: 'api-key',
+      action: 'trigger-heroes',
+      target: 'job-1',
+      created_at: expect.any(Date),
+    });
+  });
+
+  it('should not fail the action when recording fails', async () => {
+    results = [{ data: null, error: { message: 'relation does not exist' } }];
+
+    await expect(
+      service.record(principal, 'trigger-heroes', 'job-1'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, toRange } from 'src/common/pagination';
+import { AuthMethod, Principal, Role } from './principal';
+
+export interface AuditEntry {
+  actor: string;
+  role: Role;
+  auth_method: AuthMethod;
+  action: string;
+  // What the action applied to, e.g. the id of the queued scrape job
+  target: string | null;
+  created_at: Date;
+}
+
+/**
+ * Records who did what through the protected endpoints in `audit_log`. A
+ * failure to record is logged and never blocks the action itself.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  private readonly table = 'audit_log';
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async record(principal: Principal, action: string, target: string | null) {
+    const entry: AuditEntry = {
+      actor: principal.name,
+      role: principal.role,
+      auth_method: principal.method,
+      action,
+      target,
+      created_at: new Date(),
+    };
+
+    this.logger.log(
+      `${entry.actor} (${entry.auth_method}) ${action}${target ? ` ${target}` : ''}`,
+    );
+
+    const { error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .insert(entry);
+
+    if (error) {
+      this.logger.error(`Error recording audit entry: ${error.message}`);
+    }
+  }
+
+  async findAll(
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<AuditEntry>> {
+    const [from, to] = toRange(page, limit);
+
+    const { data, count, error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching audit log: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch audit log');
+    }
+
+    return { data: data ?? [], page, limit, total: count ?? 0 };
+  }
+}
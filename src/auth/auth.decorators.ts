@@ -0,0 +1,21 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { AuthenticatedRequest, Principal, Role } from './principal';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restricts a controller or route to callers with one of the given roles. A
+ * role on a route replaces the roles of its controller; routes without any
+ * stay public.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+
+// The principal AuthGuard attached to the request
+export const AuthPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): Principal =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
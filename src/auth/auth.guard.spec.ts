@@ -0,0 +1,81 @@
+import {
+  Controller,
+  ExecutionContext,
+  ForbiddenException,
+  Get,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { Roles } from './auth.decorators';
+import { Principal, Role } from './principal';
+
+@Controller()
+@Roles(Role.Admin, Role.ReadOnly)
+class ProtectedController {
+  @Get()
+  read() {}
+
+  @Get()
+  @Roles(Role.Admin)
+  write() {}
+}
+
+@Controller()
+class PublicController {
+  @Get()
+  read() {}
+}
+
+describe('AuthGuard', () => {
+  let guard: AuthGuard;
+  let principal: Principal | null;
+  const authService = { authenticate: jest.fn(() => principal) };
+
+  const context = (
+    controller: new () => object,
+    handler: string,
+    request: Record<string, unknown> = { headers: {} },
+  ) =>
+    ({
+      getClass: () => controller,
+      getHandler: () => controller.prototype[handler],
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    principal = null;
+    guard = new AuthGuard(
+      new Reflector(),
+      authService as unknown as AuthService,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should let anyone through to routes without roles', () => {
+    expect(guard.canActivate(context(PublicController, 'read'))).toBe(true);
+  });
+
+  it('should reject requests without valid credentials', () => {
+    expect(() =>
+      guard.canActivate(context(ProtectedController, 'read')),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should let route roles override controller roles', () => {
+    principal = { name: 'dashboard', role: Role.ReadOnly, method: 'api-key' };
+    const request = { headers: {} } as Record<string, unknown>;
+
+    expect(
+      guard.canActivate(context(ProtectedController, 'read', request)),
+    ).toBe(true);
+    expect(request.principal).toBe(principal);
+    expect(() =>
+      guard.canActivate(context(ProtectedController, 'write')),
+    ).toThrow(ForbiddenException);
+  });
+});
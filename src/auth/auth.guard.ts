@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { ROLES_KEY } from './auth.decorators';
+import { AuthenticatedRequest, Role } from './principal';
+
+/**
+ * Enforces @Roles(): routes without roles are public, the others need
+ * credentials for one of the listed roles.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = this.authService.authenticate(request.headers);
+    if (!principal) {
+      throw new UnauthorizedException('Missing or invalid credentials');
+    }
+
+    if (!roles.includes(principal.role)) {
+      throw new ForbiddenException(
+        `Requires one of the roles: ${roles.join(', ')}`,
+      );
+    }
+
+    request.principal = principal;
+    return true;
+  }
+}
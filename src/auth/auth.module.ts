@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { RateLimitGuard } from './rate-limit.guard';
+import { AuditService } from './audit.service';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [AuthService, AuthGuard, RateLimitGuard, AuditService],
+  exports: [AuthService, AuthGuard, RateLimitGuard, AuditService],
+})
+export class AuthModule {}
@@ -0,0 +1,94 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHmac } from 'crypto';
+import { AuthService } from './auth.service';
+import { Role } from './principal';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let config: Record<string, string>;
+  const secret = 'test-secret';
+
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  const jwt = (claims: object, key = secret, alg = 'HS256') => {
+    const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+    const signature = createHmac('sha256', key)
+      .update(unsigned)
+      .digest('base64url');
+    return `${unsigned}.${signature}`;
+  };
+
+  const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<AuthService>(AuthService);
+  };
+
+  beforeEach(async () => {
+    config = {
+      API_KEYS: 'ci:admin:key-1, dashboard:read-only:key:with:colons',
+      JWT_SECRET: secret,
+    };
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should resolve API keys to their principal', () => {
+    expect(service.authenticate({ 'x-api-key': 'key-1' })).toEqual({
+      name: 'ci',
+      role: Role.Admin,
+      method: 'api-key',
+    });
+    expect(service.authenticate({ 'x-api-key': 'key:with:colons' })?.role).toBe(
+      Role.ReadOnly,
+    );
+    expect(service.authenticate({ 'x-api-key': 'key-2' })).toBeNull();
+    expect(service.authenticate({})).toBeNull();
+  });
+
+  it('should accept valid JWTs only', () => {
+    const claims = { sub: 'alice', role: 'admin', exp: inAnHour() };
+
+    expect(
+      service.authenticate({ authorization: `Bearer ${jwt(claims)}` }),
+    ).toEqual({ name: 'alice', role: Role.Admin, method: 'jwt' });
+
+    for (const token of [
+      jwt(claims, 'other-secret'),
+      jwt(claims, secret, 'none'),
+      jwt({ ...claims, exp: Math.floor(Date.now() / 1000) - 1 }),
+      jwt({ ...claims, role: 'owner' }),
+      jwt({ role: 'admin', exp: inAnHour() }),
+      'not-a-jwt',
+    ]) {
+      expect(
+        service.authenticate({ authorization: `Bearer ${token}` }),
+      ).toBeNull();
+    }
+  });
+
+  it('should refuse to start with malformed API keys', async () => {
+    config.API_KEYS = 'ci:owner:key-1';
+    await expect(createService()).rejects.toThrow(/API_KEYS/);
+
+    config.API_KEYS = 'ci:admin:key-1,ci:read-only:key-2';
+    await expect(createService()).rejects.toThrow(/unique/);
+  });
+});
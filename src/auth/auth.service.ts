@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { Principal, Role } from './principal';
+
+interface ApiKey {
+  name: string;
+  role: Role;
+  // SHA-256 of the key, so comparisons take the same time for any input
+  digest: Buffer;
+}
+
+/**
+ * Resolves the caller of a request from an `X-API-Key` header or an
+ * `Authorization: Bearer` JWT.
+ *
+ * API keys are configured in API_KEYS as comma-separated `name:role:key`
+ * entries. JWTs must be signed with HS256 using JWT_SECRET and carry `sub`,
+ * `role` and `exp` claims. A malformed API_KEYS stops the app from starting.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly apiKeys: ApiKey[];
+  private readonly jwtSecret: string | undefined;
+
+  constructor(private readonly configService: ConfigService) {
+    this.apiKeys = this.parseApiKeys(
+      this.configService.get<string>('API_KEYS', ''),
+    );
+    this.jwtSecret = this.configService.get<string>('JWT_SECRET');
+
+    if (this.apiKeys.length === 0 && !this.jwtSecret) {
+      this.logger.warn(
+        'Neither API_KEYS nor JWT_SECRET is set; protected endpoints will reject every request.',
+      );
+    }
+  }
+
+  /**
+   * @returns null when the request carries no valid credentials.
+   */
+  authenticate(headers: {
+    'x-api-key'?: string | string[];
+    authorization?: string;
+  }): Principal | null {
+    const apiKey = headers['x-api-key'];
+    if (typeof apiKey === 'string') {
+      return this.verifyApiKey(apiKey);
+    }
+
+    const [scheme, token] = (headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return this.verifyJwt(token);
+    }
+
+    return null;
+  }
+
+  private verifyApiKey(key: string): Principal | null {
+    const digest = this.digest(key);
+    const match = this.apiKeys.find((apiKey) =>
+      timingSafeEqual(apiKey.digest, digest),
+    );
+    return match
+      ? { name: match.name, role: match.role, method: 'api-key' }
+      : null;
+  }
+
+  private verifyJwt(token: string): Principal | null {
+    if (!this.jwtSecret) {
+      return null;
+    }
+
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+
+    const expected = createHmac('sha256', this.jwtSecret)
+      .update(`${header}.${payload}`)
+      .digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      return null;
+    }
+
+    let claims: { alg?: string; sub?: unknown; role?: unknown; exp?: unknown };
+    try {
+      const { alg } = JSON.parse(
+        Buffer.from(header, 'base64url').toString('utf8'),
+      );
+      claims = {
+        alg,
+        ...JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')),
+      };
+    } catch {
+      return null;
+    }
+
+    if (
+      claims.alg !== 'HS256' ||
+      typeof claims.sub !== 'string' ||
+      !this.isRole(claims.role) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp * 1000 <= Date.now()
+    ) {
+      return null;
+    }
+
+    return { name: claims.sub, role: claims.role, method: 'jwt' };
+  }
+
+  private parseApiKeys(config: string): ApiKey[] {
+    const entries = config
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    const apiKeys = entries.map((entry) => {
+      const [name, role, ...key] = entry.split(':');
+      if (!name || !this.isRole(role) || key.length === 0) {
+        throw new Error(
+          `API_KEYS entries must be name:role:key with role one of ${Object.values(Role).join(', ')}`,
+        );
+      }
+      return { name, role, digest: this.digest(key.join(':')) };
+    });
+
+    const names = apiKeys.map((apiKey) => apiKey.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error('API_KEYS names must be unique');
+    }
+
+    return apiKeys;
+  }
+
+  private isRole(value: unknown): value is Role {
+    return Object.values(Role).includes(value as Role);
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
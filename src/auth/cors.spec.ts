@@ -0,0 +1,26 @@
+import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+import { Request } from 'express';
+import { corsOptions } from './cors';
+
+describe('corsOptions', () => {
+  const optionsFor = (allowedOrigins: string[], path: string) => {
+    let options: CorsOptions;
+    corsOptions(allowedOrigins)({ path } as Request, (_error, result) => {
+      options = result;
+    });
+    return options;
+  };
+
+  it('should open the public routes to every origin', () => {
+    expect(optionsFor([], '/heroes').origin).toBe(true);
+    expect(optionsFor([], '/search').origin).toBe(true);
+    expect(optionsFor([], '/scrapingx').origin).toBe(true);
+  });
+
+  it('should limit the protected routes to the allowed origins', () => {
+    expect(
+      optionsFor(['https://admin.example.com'], '/scraping/news').origin,
+    ).toEqual(['https://admin.example.com']);
+    expect(optionsFor([], '/scraping').origin).toBe(false);
+  });
+});
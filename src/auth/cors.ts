@@ -0,0 +1,33 @@
+import {
+  CorsOptions,
+  CorsOptionsDelegate,
+} from '@nestjs/common/interfaces/external/cors-options.interface';
+import { Request } from 'express';
+
+// Routes behind AuthGuard; see ScrapingController
+const PROTECTED_PATH = /^\/scraping(\/|$)/;
+
+const ALLOWED_HEADERS = ['Authorization', 'Content-Type', 'X-API-Key'];
+
+/**
+ * The public read API can be called from any origin. The protected routes
+ * only from `allowedOrigins`, or from none when it is empty.
+ */
+export function corsOptions(
+  allowedOrigins: string[],
+): CorsOptionsDelegate<Request> {
+  const publicOptions: CorsOptions = {
+    origin: true,
+    allowedHeaders: ALLOWED_HEADERS,
+  };
+  const protectedOptions: CorsOptions = {
+    origin: allowedOrigins.length > 0 ? allowedOrigins : false,
+    allowedHeaders: ALLOWED_HEADERS,
+  };
+
+  return (request, callback) =>
+    callback(
+      null,
+      PROTECTED_PATH.test(request.path) ? protectedOptions : publicOptions,
+    );
+}
@@ -0,0 +1,22 @@
+import { Request } from 'express';
+
+export enum Role {
+  Admin = 'admin',
+  ReadOnly = 'read-only',
+}
+
+export type AuthMethod = 'api-key' | 'jwt';
+
+/**
+ * The caller of a protected endpoint: the name of its API key, or the `sub`
+ * claim of its JWT.
+ */
+export interface Principal {
+  name: string;
+  role: Role;
+  method: AuthMethod;
+}
+
+export interface AuthenticatedRequest extends Request {
+  principal?: Principal;
+}
@@ -0,0 +1,50 @@
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitGuard } from './rate-limit.guard';
+import { Principal, Role } from './principal';
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  const response = { setHeader: jest.fn() };
+
+  const context = (name: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          principal: { name, role: Role.Admin, method: 'api-key' } as Principal,
+        }),
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    const config: Record<string, number> = {
+      TRIGGER_RATE_LIMIT: 2,
+      TRIGGER_RATE_LIMIT_WINDOW_MS: 60000,
+    };
+    guard = new RateLimitGuard({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should limit each principal separately per window', () => {
+    expect(guard.canActivate(context('ci'))).toBe(true);
+    expect(guard.canActivate(context('ci'))).toBe(true);
+    expect(() => guard.canActivate(context('ci'))).toThrow(HttpException);
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', 60);
+    expect(guard.canActivate(context('alice'))).toBe(true);
+
+    jest.advanceTimersByTime(60000);
+
+    expect(guard.canActivate(context('ci'))).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { AuthenticatedRequest } from './principal';
+
+/**
+ * Limits each principal to TRIGGER_RATE_LIMIT requests per
+ * TRIGGER_RATE_LIMIT_WINDOW_MS across the routes it guards. Must run after
+ * AuthGuard, which identifies the principal. Counters are kept in memory, so
+ * they reset on restart and are per instance.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly windows = new Map<
+    string,
+    { startedAt: number; count: number }
+  >();
+
+  constructor(private readonly configService: ConfigService) {
+    this.limit = Number(this.configService.get('TRIGGER_RATE_LIMIT', 10));
+    this.windowMs = Number(
+      this.configService.get('TRIGGER_RATE_LIMIT_WINDOW_MS', 60000),
+    );
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    // Keyed by method too, so an API key and a JWT sharing a name do not
+    // share a budget
+    const key = request.principal
+      ? `${request.principal.method}:${request.principal.name}`
+      : `ip:${request.ip}`;
+
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    window.count += 1;
+    if (window.count > this.limit) {
+      const retryAfterMs = window.startedAt + this.windowMs - now;
+      context
+        .switchToHttp()
+        .getResponse<Response>()
+        .setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+      throw new HttpException(
+        `Rate limit of ${this.limit} requests per ${this.windowMs}ms exceeded`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,35 @@
+import { BadRequestException } from '@nestjs/common';
+
+export enum SortOrder {
+  Asc = 'asc',
+  Desc = 'desc',
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
+/**
+ * Converts a 1-based page and page size into the inclusive row range
+ * expected by Supabase's `range()`.
+ */
+export function toRange(page: number, limit: number): [number, number] {
+  if (page < 1) {
+    throw new BadRequestException('page must be greater than or equal to 1');
+  }
+
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new BadRequestException(
+      `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+    );
+  }
+
+  const from = (page - 1) * limit;
+  return [from, from + limit - 1];
+}
@@ -0,0 +1,78 @@
+import {
+  Ability,
+  abilitySlug,
+  isTeamUpAbility,
+  StatUnit,
+  validateAbility,
+} from './ability.model';
+
+describe('ability model', () => {
+  const ability: Ability = {
+    hero_id: 'hero-1',
+    slug: 'gamma-burst',
+    name: 'Gamma Burst',
+    type: 'Left Mouse Button',
+    description: '',
+    stats: {
+      cooldown: {
+        value: 6,
+        unit: StatUnit.Seconds,
+        values: [{ value: 6, unit: StatUnit.Seconds, label: null }],
+        raw: '6s',
+      },
+    },
+    team_up: false,
+    retired_at: null,
+    parser_version: 'marvel-rivals/abilities-skill-table@1',
+  };
+
+  it('should accept an ability with an empty description', () => {
+    expect(validateAbility(ability)).toEqual([]);
+  });
+
+  it('should reject an ability without a name', () => {
+    expect(validateAbility({ ...ability, name: '' })).toEqual([
+      'name must not be empty',
+    ]);
+  });
+
+  it('should reject a slug that is not lowercase and dashed', () => {
+    expect(validateAbility({ ...ability, slug: 'Gamma Burst' })).toEqual([
+      'slug must be lowercase words separated by dashes',
+    ]);
+  });
+
+  it('should slugify ability names', () => {
+    expect(abilitySlug('Gamma Burst')).toBe('gamma-burst');
+    expect(abilitySlug("Hulk's  Gamma-Charged Fist!")).toBe(
+      'hulks-gamma-charged-fist',
+    );
+    expect(abilitySlug('Épée Strike')).toBe('epee-strike');
+  });
+
+  it('should recognise team-up keybinds', () => {
+    expect(isTeamUpAbility('TEAM-UP')).toBe(true);
+    expect(isTeamUpAbility('Team Up Passive')).toBe(true);
+    expect(isTeamUpAbility('Left Shift')).toBe(false);
+  });
+
+  it('should reject stats without raw text or with unknown units', () => {
+    expect(
+      validateAbility({
+        ...ability,
+        stats: {
+          damage: {
+            value: NaN,
+            unit: 'hp' as StatUnit,
+            values: [],
+            raw: '',
+          },
+        },
+      }),
+    ).toEqual([
+      'stats.damage.raw must not be empty',
+      'stats.damage.value must be a finite number or null',
+      'stats.damage.unit must be one of s, m, m/s, /s, %',
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import { requireDate, requirePlainObject, requireString } from './validation';
+
+/**
+ * Canonical stat names. Wiki labels are mapped onto these by
+ * AbilityStatsUtils.normalize(); labels without a mapping keep their
+ * snake_cased label as key.
+ */
+export enum AbilityStatKey {
+  Damage = 'damage',
+  Healing = 'healing',
+  Cooldown = 'cooldown',
+  Duration = 'duration',
+  Range = 'range',
+  AreaRadius = 'area_radius',
+  ProjectileSpeed = 'projectile_speed',
+  // Seconds between attacks
+  AttackInterval = 'attack_interval',
+  // Shots per second, the inverse of AttackInterval
+  FireRate = 'fire_rate',
+  Ammo = 'ammo',
+  Charges = 'charges',
+  EnergyCost = 'energy_cost',
+  MovementBoost = 'movement_boost',
+  DamageReduction = 'damage_reduction',
+  Shield = 'shield',
+  BonusHealth = 'bonus_health',
+  CriticalHit = 'critical_hit',
+  Casting = 'casting',
+  SpecialEffect = 'special_effect',
+  Properties = 'properties',
+}
+
+export enum StatUnit {
+  Seconds = 's',
+  Meters = 'm',
+  MetersPerSecond = 'm/s',
+  PerSecond = '/s',
+  Percent = '%',
+}
+
+/**
+ * One number read from a stat, e.g. `40` and `'s'` from "40s". Multi-stage
+ * stats such as "20/40/60" produce one value per stage; `label` keeps any
+ * trailing text like "per round" or "spherical radius".
+ */
+export interface StatValue {
+  value: number;
+  unit: StatUnit | null;
+  label: string | null;
+}
+
+export interface AbilityStat {
+  // The first parsed number, used for sorting and comparisons
+  value: number | null;
+  unit: StatUnit | null;
+  values: StatValue[];
+  // The stat text exactly as scraped
+  raw: string;
+}
+
+/**
+ * Normalized stats keyed by AbilityStatKey, e.g.
+ * `{ cooldown: { value: 6, unit: 's', values: [...], raw: '6s' } }`.
+ */
+export type AbilityStats = Record<string, AbilityStat>;
+
+/**
+ * A row of `marvel_rivals_abilities` as written by the abilities scraper.
+ * Abilities are unique per hero and slug, so two heroes may share an ability
+ * name. Team-up abilities are stored once for every hero that has them and
+ * are linked through their shared slug.
+ */
+export interface Ability {
+  hero_id: string;
+  slug: string;
+  name: string;
+  // Keybind, e.g. 'Left Mouse Button', 'Q' or 'Passive'
+  type: string;
+  description: string;
+  stats: AbilityStats;
+  team_up: boolean;
+  // Set when the ability disappears from the hero's wiki page
+  retired_at: Date | null;
+  // See parserVersion()
+  parser_version: string;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function abilitySlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function isTeamUpAbility(type: string): boolean {
+  return /team[\s-]?up/i.test(type);
+}
+
+export function validateAbility(ability: Ability): string[] {
+  const errors: string[] = [];
+  requireString(errors, 'hero_id', ability.hero_id);
+  requireString(errors, 'name', ability.name);
+  if (typeof ability.slug !== 'string' || !SLUG_PATTERN.test(ability.slug)) {
+    errors.push('slug must be lowercase words separated by dashes');
+  }
+  requireString(errors, 'type', ability.type);
+  requireString(errors, 'description', ability.description, {
+    allowEmpty: true,
+  });
+
+  if (typeof ability.team_up !== 'boolean') {
+    errors.push('team_up must be a boolean');
+  }
+  if (ability.retired_at !== null) {
+    requireDate(errors, 'retired_at', ability.retired_at);
+  }
+  requireString(errors, 'parser_version', ability.parser_version);
+
+  if (requirePlainObject(errors, 'stats', ability.stats)) {
+    for (const [key, stat] of Object.entries(ability.stats)) {
+      errors.push(...validateAbilityStat(`stats.${key}`, stat));
+    }
+  }
+  return errors;
+}
+
+function validateAbilityStat(field: string, stat: AbilityStat): string[] {
+  const errors: string[] = [];
+  if (!requirePlainObject(errors, field, stat)) {
+    return errors;
+  }
+  requireString(errors, `${field}.raw`, stat.raw);
+
+  const units = Object.values(StatUnit);
+  const values = Array.isArray(stat.values) ? stat.values : null;
+  if (!values) {
+    errors.push(`${field}.values must be an array`);
+  } else if (
+    values.some(
+      (value) =>
+        !Number.isFinite(value?.value) ||
+        (value.unit !== null && !units.includes(value.unit)),
+    )
+  ) {
+    errors.push(`${field}.values must hold finite numbers with known units`);
+  }
+
+  if (stat.value !== null && !Number.isFinite(stat.value)) {
+    errors.push(`${field}.value must be a finite number or null`);
+  }
+  if (stat.unit !== null && !units.includes(stat.unit)) {
+    errors.push(`${field}.unit must be one of ${units.join(', ')}`);
+  }
+  return errors;
+}
@@ -0,0 +1,116 @@
+import { InfoboxField, validateInfoboxFields } from './hero.model';
+import { NewsType } from './news.model';
+import {
+  requireOneOf,
+  requirePlainObject,
+  requireString,
+  requireUrl,
+} from './validation';
+
+/**
+ * The page layouts a game's sources are written in. Each set maps to the
+ * parsers in ScrapingUtils that understand them.
+ */
+export enum ParserSet {
+  MarvelRivals = 'marvel-rivals',
+}
+
+/**
+ * How pages of a source are fetched. Static pages are read as served;
+ * headless pages are rendered in a browser first, for content filled in by
+ * JavaScript.
+ */
+export enum RenderMode {
+  Static = 'static',
+  Headless = 'headless',
+}
+
+export interface NewsSource {
+  // First page of the listing; further pages are found through its links
+  url: string;
+  type: NewsType;
+  // Defaults to static
+  render?: RenderMode;
+}
+
+/**
+ * Where and how the scrapers read one game. `id` is the game's row id and is
+ * written to the `game_id` column of everything scraped for it.
+ */
+export interface GameSource {
+  id: string;
+  slug: string;
+  name: string;
+  news_sources: NewsSource[];
+  // Hero pages are `${wiki_base_url}${Hero_Name}`; null when the game has no wiki
+  wiki_base_url: string | null;
+  // Title of the wiki page listing every hero, e.g. 'Heroes'
+  heroes_page: string | null;
+  // How wiki pages are fetched; defaults to static
+  wiki_render?: RenderMode;
+  // How the hero infobox is read; defaults to DEFAULT_INFOBOX_FIELDS
+  infobox_fields?: InfoboxField[];
+  parser_set: ParserSet;
+}
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function validateGameSource(game: GameSource): string[] {
+  const errors: string[] = [];
+  if (!requirePlainObject(errors, 'game', game)) {
+    return errors;
+  }
+  requireString(errors, 'id', game.id);
+  if (typeof game.slug !== 'string' || !SLUG_PATTERN.test(game.slug)) {
+    errors.push('slug must be lowercase words separated by dashes');
+  }
+  requireString(errors, 'name', game.name);
+  requireOneOf(errors, 'parser_set', game.parser_set, Object.values(ParserSet));
+  requireUrl(errors, 'wiki_base_url', game.wiki_base_url, { nullable: true });
+  if (game.wiki_base_url && !game.wiki_base_url.endsWith('/')) {
+    errors.push('wiki_base_url must end with a slash');
+  }
+  if (game.wiki_render !== undefined) {
+    requireOneOf(
+      errors,
+      'wiki_render',
+      game.wiki_render,
+      Object.values(RenderMode),
+    );
+  }
+  if (game.infobox_fields !== undefined) {
+    errors.push(...validateInfoboxFields(game.infobox_fields));
+  }
+  if (game.heroes_page !== null) {
+    requireString(errors, 'heroes_page', game.heroes_page);
+    if (!game.wiki_base_url) {
+      errors.push('heroes_page requires a wiki_base_url');
+    }
+  }
+
+  if (!Array.isArray(game.news_sources)) {
+    errors.push('news_sources must be an array');
+  } else {
+    game.news_sources.forEach((source, index) => {
+      const field = `news_sources[${index}]`;
+      if (requirePlainObject(errors, field, source)) {
+        requireUrl(errors, `${field}.url`, source.url);
+        requireOneOf(
+          errors,
+          `${field}.type`,
+          source.type,
+          Object.values(NewsType),
+        );
+        if (source.render !== undefined) {
+          requireOneOf(
+            errors,
+            `${field}.render`,
+            source.render,
+            Object.values(RenderMode),
+          );
+        }
+      }
+    });
+  }
+  return errors;
+}
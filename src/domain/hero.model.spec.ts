@@ -0,0 +1,167 @@
+import {
+  emptyHeroStats,
+  Hero,
+  HeroLore,
+  HeroType,
+  InfoboxFieldType,
+  splitHeroProfile,
+  validateHero,
+  validateHeroLore,
+  validateHeroStats,
+  validateInfoboxFields,
+} from './hero.model';
+
+describe('hero model', () => {
+  const hero: Hero = {
+    name: 'Hulk',
+    image_url: 'https://static.wikia.nocookie.net/hulk.png',
+    original_image_url: 'https://static.wikia.nocookie.net/hulk.png',
+    thumbnails: null,
+    type: HeroType.Vanguard,
+    game_id: 'acbbf41e-1049-4adf-8b86-4033a324d404',
+    created_at: new Date(),
+    parser_version: 'marvel-rivals/hero-list@1',
+  };
+
+  it('should accept a well-formed hero', () => {
+    expect(validateHero(hero)).toEqual([]);
+  });
+
+  it('should reject a hero with an unknown role and relative image', () => {
+    expect(
+      validateHero({
+        ...hero,
+        type: 'tank' as HeroType,
+        image_url: '/hulk.png',
+      }),
+    ).toEqual([
+      'image_url must be an absolute http(s) URL',
+      'type must be one of vanguard, duelist, strategist',
+    ]);
+  });
+
+  it('should reject thumbnails not keyed by width', () => {
+    expect(
+      validateHero({
+        ...hero,
+        thumbnails: {
+          '96': 'https://cdn.example.com/abc-96.webp',
+          small: 'https://cdn.example.com/abc-256.webp',
+        },
+      }),
+    ).toEqual(['thumbnails keys must be widths, got small']);
+  });
+
+  it('should reject a hero without a name', () => {
+    expect(validateHero({ ...hero, name: '  ' })).toEqual([
+      'name must not be empty',
+    ]);
+  });
+
+  it('should accept missing stats but reject values of the wrong type', () => {
+    expect(
+      validateHeroStats({
+        ...emptyHeroStats(),
+        health: null,
+        difficulty: null,
+      }),
+    ).toEqual([]);
+    expect(
+      validateHeroStats({ ...emptyHeroStats(), health: 12.5, difficulty: 2 }),
+    ).toEqual(['stats.health must be an integer or null']);
+  });
+
+  it('should validate the extended infobox stats', () => {
+    expect(
+      validateHeroStats({
+        ...emptyHeroStats(),
+        movement_speed: 6,
+        release_date: '2024-12-06',
+        team_up_anchors: ['Thor'],
+        ultimate_cost: 3400,
+      }),
+    ).toEqual([]);
+    expect(
+      validateHeroStats({
+        ...emptyHeroStats(),
+        movement_speed: '6 m/s' as unknown as number,
+        release_date: 'December 6',
+        ultimate_cost: { value: 3400 } as unknown as number,
+      }),
+    ).toEqual([
+      'stats.movement_speed must be a number or null',
+      'stats.release_date must be a YYYY-MM-DD date or null',
+      'stats.ultimate_cost must be a number, string, list or null',
+    ]);
+  });
+
+  it('should split the profile facts off the infobox values', () => {
+    const { profile, stats } = splitHeroProfile({
+      ...emptyHeroStats(),
+      season: 'Season 0: Dawn of Doom',
+      real_name: 'Ororo Munroe',
+      affiliations: ['X-Men'],
+      ultimate_cost: 3400,
+    });
+
+    expect(profile).toEqual({
+      real_name: 'Ororo Munroe',
+      affiliations: ['X-Men'],
+      first_appearance: null,
+      voice_actor: null,
+      release_season: 'Season 0: Dawn of Doom',
+    });
+    expect(stats).toEqual({
+      ...emptyHeroStats(),
+      season: 'Season 0: Dawn of Doom',
+      ultimate_cost: 3400,
+    });
+  });
+
+  it('should not let configuration change the type of a profile field', () => {
+    expect(
+      validateInfoboxFields([
+        {
+          key: 'affiliations',
+          sources: ['team'],
+          type: InfoboxFieldType.Text,
+        },
+      ]),
+    ).toEqual(['infobox_fields[0].type must be list for affiliations']);
+  });
+
+  it('should reject lore links that do not point into their paragraph', () => {
+    const lore: HeroLore = {
+      real_name: 'Ororo Munroe',
+      affiliations: ['X-Men'],
+      first_appearance: null,
+      voice_actor: null,
+      release_season: null,
+      quotes: [{ text: 'The storm is coming!', source: null }],
+      biography: [
+        {
+          text: 'A member of the X-Men.',
+          links: [
+            { text: 'X-Men', url: 'https://example.com/X-Men', start: 16 },
+          ],
+        },
+      ],
+    };
+
+    expect(validateHeroLore(lore)).toEqual([]);
+    expect(
+      validateHeroLore({
+        ...lore,
+        biography: [
+          {
+            text: 'A member of the X-Men.',
+            links: [{ text: 'X-Men', url: '/wiki/X-Men', start: 3 }],
+          },
+        ],
+      }),
+    ).toEqual([
+      'lore_details.biography.0.links.0.url must be an absolute http(s) URL',
+      'lore_details.biography.0.links.0 must point into the paragraph text',
+    ]);
+  });
+});
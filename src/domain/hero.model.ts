@@ -0,0 +1,389 @@
+import {
+  requireDate,
+  requireNullableInteger,
+  requireOneOf,
+  requireOptionalString,
+  requirePlainObject,
+  requireString,
+  requireThumbnails,
+  requireUrl,
+} from './validation';
+
+export enum HeroType {
+  Vanguard = 'vanguard',
+  Duelist = 'duelist',
+  Strategist = 'strategist',
+}
+
+/**
+ * How the text of an infobox field is read into a stat.
+ */
+export enum InfoboxFieldType {
+  // The first whole number, e.g. 250 from "250 HP"
+  Integer = 'integer',
+  // The first number, e.g. 6.5 from "6.5 m/s"
+  Number = 'number',
+  // The number of full star icons
+  Stars = 'stars',
+  Text = 'text',
+  // List items, links or values separated by line breaks or commas
+  List = 'list',
+  // Stored as YYYY-MM-DD
+  Date = 'date',
+}
+
+/**
+ * Maps one or more infobox `data-source` names onto a hero stat. Games list
+ * their fields in GameSource.infobox_fields, so new infobox fields can be
+ * captured from configuration alone.
+ */
+export interface InfoboxField {
+  // Key in HeroStats, e.g. 'movement_speed'
+  key: string;
+  // Tried in order; the first one present on the page is used
+  sources: string[];
+  type: InfoboxFieldType;
+}
+
+export type HeroStatValue = number | string | string[] | null;
+
+/**
+ * Stats read from the hero infobox. Fields without a value on the page are
+ * null (or empty for lists); fields configured beyond the built-in ones are
+ * stored under their own key.
+ */
+export interface HeroStats {
+  health: number | null;
+  // Number of full stars (1-5) in the wiki infobox
+  difficulty: number | null;
+  role: string | null;
+  // Meters per second
+  movement_speed: number | null;
+  armor: number | null;
+  shields: number | null;
+  // YYYY-MM-DD
+  release_date: string | null;
+  season: string | null;
+  // Heroes whose team-up abilities this hero anchors
+  team_up_anchors: string[];
+  [key: string]: HeroStatValue;
+}
+
+// The type each built-in stat is parsed as; configuration may not change it
+export const HERO_STAT_TYPES: Record<string, InfoboxFieldType> = {
+  health: InfoboxFieldType.Integer,
+  difficulty: InfoboxFieldType.Stars,
+  role: InfoboxFieldType.Text,
+  movement_speed: InfoboxFieldType.Number,
+  armor: InfoboxFieldType.Integer,
+  shields: InfoboxFieldType.Integer,
+  release_date: InfoboxFieldType.Date,
+  season: InfoboxFieldType.Text,
+  team_up_anchors: InfoboxFieldType.List,
+};
+
+/**
+ * Bounds of the built-in numeric stats. A value outside them is a misread,
+ * e.g. difficulty 0 from a row of empty star icons, and is treated like any
+ * other value that cannot be parsed.
+ */
+export const HERO_STAT_RANGES: Record<string, { min: number; max?: number }> = {
+  health: { min: 1 },
+  difficulty: { min: 1, max: 5 },
+  // Meters per second
+  movement_speed: { min: 1 },
+  armor: { min: 0 },
+  shields: { min: 0 },
+};
+
+export function emptyHeroStats(): HeroStats {
+  return {
+    health: null,
+    difficulty: null,
+    role: null,
+    movement_speed: null,
+    armor: null,
+    shields: null,
+    release_date: null,
+    season: null,
+    team_up_anchors: [],
+  };
+}
+
+export interface LoreLink {
+  text: string;
+  // Absolute URL of the link target
+  url: string;
+  // Offset of `text` within the paragraph
+  start: number;
+}
+
+export interface LoreParagraph {
+  text: string;
+  links: LoreLink[];
+}
+
+export interface HeroQuote {
+  // Without the surrounding quotation marks
+  text: string;
+  // The attribution after the dash, e.g. 'Voice line'
+  source: string | null;
+}
+
+/**
+ * The profile read from a hero's wiki page and stored in the `lore_details`
+ * column. The `lore` column keeps the biography as plain text.
+ */
+export interface HeroLore {
+  real_name: string | null;
+  affiliations: string[];
+  first_appearance: string | null;
+  voice_actor: string | null;
+  release_season: string | null;
+  quotes: HeroQuote[];
+  biography: LoreParagraph[];
+}
+
+// The infobox field each profile fact is read from; `season` is also a stat
+export const HERO_PROFILE_FIELDS = {
+  real_name: 'real_name',
+  affiliations: 'affiliations',
+  first_appearance: 'first_appearance',
+  voice_actor: 'voice_actor',
+  release_season: 'season',
+} as const;
+
+// The type each profile field is parsed as; configuration may not change it
+const HERO_PROFILE_TYPES: Record<string, InfoboxFieldType> = {
+  real_name: InfoboxFieldType.Text,
+  affiliations: InfoboxFieldType.List,
+  first_appearance: InfoboxFieldType.Text,
+  voice_actor: InfoboxFieldType.Text,
+};
+
+export type HeroProfile = Pick<HeroLore, keyof typeof HERO_PROFILE_FIELDS>;
+
+// The part of HeroLore read from the page body rather than the infobox
+export type HeroLoreText = Omit<HeroLore, keyof HeroProfile>;
+
+/**
+ * Separates the profile facts from the values read with
+ * ScrapingUtils.extractHeroStats(), so the infobox is only read through the
+ * game's infobox_fields.
+ */
+export function splitHeroProfile(values: HeroStats): {
+  profile: HeroProfile;
+  stats: HeroStats;
+} {
+  const text = (key: string) => {
+    const value = values[key];
+    return typeof value === 'string' ? value : null;
+  };
+  const affiliations = values[HERO_PROFILE_FIELDS.affiliations];
+
+  const stats = { ...values };
+  for (const key of Object.keys(HERO_PROFILE_TYPES)) {
+    delete stats[key];
+  }
+
+  return {
+    profile: {
+      real_name: text(HERO_PROFILE_FIELDS.real_name),
+      affiliations: Array.isArray(affiliations) ? affiliations : [],
+      first_appearance: text(HERO_PROFILE_FIELDS.first_appearance),
+      voice_actor: text(HERO_PROFILE_FIELDS.voice_actor),
+      release_season: text(HERO_PROFILE_FIELDS.release_season),
+    },
+    stats,
+  };
+}
+
+/**
+ * A row of `marvel_rivals_heroes` as written by the heroes scraper. Lore and
+ * stats are filled in later by the lore scraper.
+ */
+export interface Hero {
+  name: string;
+  // Our mirrored copy, or the scraped URL when mirroring is off or failed
+  image_url: string;
+  // The scraped URL, kept for attribution; see ImageMirrorService
+  original_image_url: string;
+  thumbnails: Record<string, string> | null;
+  type: HeroType;
+  game_id: string;
+  created_at: Date;
+  // See parserVersion()
+  parser_version: string;
+}
+
+export function validateHero(hero: Hero): string[] {
+  const errors: string[] = [];
+  requireString(errors, 'name', hero.name);
+  requireUrl(errors, 'image_url', hero.image_url);
+  requireUrl(errors, 'original_image_url', hero.original_image_url);
+  requireThumbnails(errors, hero.thumbnails);
+  requireOneOf(errors, 'type', hero.type, Object.values(HeroType));
+  requireString(errors, 'game_id', hero.game_id);
+  requireDate(errors, 'created_at', hero.created_at);
+  requireString(errors, 'parser_version', hero.parser_version);
+  return errors;
+}
+
+export function validateHeroStats(stats: HeroStats): string[] {
+  const errors: string[] = [];
+  if (!requirePlainObject(errors, 'stats', stats)) {
+    return errors;
+  }
+  // Ranges are checked while parsing, see HERO_STAT_RANGES
+  requireNullableInteger(errors, 'stats.health', stats.health);
+  requireNullableInteger(errors, 'stats.difficulty', stats.difficulty);
+  requireNullableInteger(errors, 'stats.armor', stats.armor);
+  requireNullableInteger(errors, 'stats.shields', stats.shields);
+  if (
+    stats.movement_speed !== null &&
+    !(
+      typeof stats.movement_speed === 'number' &&
+      Number.isFinite(stats.movement_speed)
+    )
+  ) {
+    errors.push('stats.movement_speed must be a number or null');
+  }
+  requireOptionalString(errors, 'stats.role', stats.role);
+  requireOptionalString(errors, 'stats.season', stats.season);
+  if (
+    stats.release_date !== null &&
+    !/^\d{4}-\d{2}-\d{2}$/.test(String(stats.release_date))
+  ) {
+    errors.push('stats.release_date must be a YYYY-MM-DD date or null');
+  }
+  requireStringArray(errors, 'stats.team_up_anchors', stats.team_up_anchors);
+
+  for (const [key, value] of Object.entries(stats)) {
+    if (key in HERO_STAT_TYPES) {
+      continue;
+    }
+    const valid =
+      value === null ||
+      typeof value === 'string' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+    if (!valid) {
+      errors.push(`stats.${key} must be a number, string, list or null`);
+    }
+  }
+  return errors;
+}
+
+const INFOBOX_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+export function validateInfoboxFields(fields: InfoboxField[]): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(fields)) {
+    return ['infobox_fields must be an array'];
+  }
+
+  fields.forEach((field, index) => {
+    const name = `infobox_fields[${index}]`;
+    if (!requirePlainObject(errors, name, field)) {
+      return;
+    }
+    if (typeof field.key !== 'string' || !INFOBOX_KEY_PATTERN.test(field.key)) {
+      errors.push(`${name}.key must be snake_case`);
+    }
+    if (
+      !Array.isArray(field.sources) ||
+      field.sources.length === 0 ||
+      field.sources.some((source) => typeof source !== 'string' || !source)
+    ) {
+      errors.push(`${name}.sources must be a non-empty array of strings`);
+    }
+    requireOneOf(
+      errors,
+      `${name}.type`,
+      field.type,
+      Object.values(InfoboxFieldType),
+    );
+    const builtIn = HERO_STAT_TYPES[field.key] ?? HERO_PROFILE_TYPES[field.key];
+    if (builtIn && field.type !== builtIn) {
+      errors.push(`${name}.type must be ${builtIn} for ${field.key}`);
+    }
+  });
+
+  const keys = fields.map((field) => field?.key);
+  if (new Set(keys).size !== keys.length) {
+    errors.push('infobox_fields keys must be unique');
+  }
+  return errors;
+}
+
+export function validateHeroLore(lore: HeroLore): string[] {
+  const errors: string[] = [];
+  if (!requirePlainObject(errors, 'lore_details', lore)) {
+    return errors;
+  }
+  for (const field of [
+    'real_name',
+    'first_appearance',
+    'voice_actor',
+    'release_season',
+  ] as const) {
+    requireOptionalString(errors, `lore_details.${field}`, lore[field]);
+  }
+  requireStringArray(errors, 'lore_details.affiliations', lore.affiliations);
+
+  if (!Array.isArray(lore.quotes)) {
+    errors.push('lore_details.quotes must be an array');
+  } else {
+    lore.quotes.forEach((quote, i) => {
+      requireString(errors, `lore_details.quotes.${i}.text`, quote?.text);
+      requireOptionalString(
+        errors,
+        `lore_details.quotes.${i}.source`,
+        quote?.source,
+      );
+    });
+  }
+
+  if (!Array.isArray(lore.biography)) {
+    errors.push('lore_details.biography must be an array');
+  } else {
+    lore.biography.forEach((paragraph, i) =>
+      errors.push(...validateLoreParagraph(i, paragraph)),
+    );
+  }
+  return errors;
+}
+
+function validateLoreParagraph(
+  index: number,
+  paragraph: LoreParagraph,
+): string[] {
+  const errors: string[] = [];
+  const field = `lore_details.biography.${index}`;
+  requireString(errors, `${field}.text`, paragraph?.text);
+  if (typeof paragraph?.text !== 'string') {
+    return errors;
+  }
+  if (!Array.isArray(paragraph.links)) {
+    errors.push(`${field}.links must be an array`);
+    return errors;
+  }
+  paragraph.links.forEach((link, i) => {
+    requireUrl(errors, `${field}.links.${i}.url`, link?.url);
+    if (
+      typeof link?.text !== 'string' ||
+      typeof link.start !== 'number' ||
+      paragraph.text.slice(link.start, link.start + link.text.length) !==
+        link.text
+    ) {
+      errors.push(`${field}.links.${i} must point into the paragraph text`);
+    }
+  });
+  return errors;
+}
+
+function requireStringArray(errors: string[], field: string, value: unknown) {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    errors.push(`${field} must be an array of strings`);
+  }
+}
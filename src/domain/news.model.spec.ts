@@ -0,0 +1,58 @@
+import {
+  NewsItem,
+  newsContentHash,
+  NewsType,
+  validateNewsItem,
+} from './news.model';
+
+describe('news model', () => {
+  const item: NewsItem = {
+    title: 'Version 20241206 Patch Notes',
+    content: null,
+    body_html: '<p>Balance changes</p>',
+    body_markdown: 'Balance changes',
+    author: null,
+    images: ['https://mrv.fp.ps.netease.com/file/patch.png'],
+    published_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    game_id: 'acbbf41e-1049-4adf-8b86-4033a324d404',
+    image_url: null,
+    original_image_url: null,
+    thumbnails: null,
+    type: NewsType.Update,
+    url: 'https://marvelrivals.com/gameupdate/20241206/123.html',
+    content_hash: 'abc',
+    parser_version: 'marvel-rivals/news-article@1',
+  };
+
+  it('should accept a news item without content or image', () => {
+    expect(validateNewsItem(item)).toEqual([]);
+  });
+
+  it('should reject invalid dates, urls and types', () => {
+    expect(
+      validateNewsItem({
+        ...item,
+        published_at: new Date('not a date'),
+        url: 'javascript:void(0)',
+        type: 'blog' as NewsType,
+        images: ['/relative.png'],
+      }),
+    ).toEqual([
+      'images[0] must be an absolute http(s) URL',
+      'published_at must be a valid date',
+      'type must be one of announcement, update, dev_diary',
+      'url must be an absolute http(s) URL',
+    ]);
+  });
+
+  it('should only change the content hash when scraped fields change', () => {
+    const hash = newsContentHash(item);
+
+    expect(newsContentHash({ ...item, updated_at: new Date(0) })).toBe(hash);
+    expect(newsContentHash({ ...item, body_html: '<p>Nerfs</p>' })).not.toBe(
+      hash,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import {
+  requireDate,
+  requireOneOf,
+  requireOptionalString,
+  requireString,
+  requireThumbnails,
+  requireUrl,
+} from './validation';
+
+export enum NewsType {
+  Announcement = 'announcement',
+  Update = 'update',
+  DevDiary = 'dev_diary',
+}
+
+/**
+ * A row of `news` as written by the news scraper. `content` is the teaser
+ * from the listing card; the article itself is kept as sanitized HTML and as
+ * Markdown.
+ */
+export interface NewsItem {
+  title: string;
+  content: string | null;
+  body_html: string | null;
+  body_markdown: string | null;
+  author: string | null;
+  images: string[];
+  published_at: Date;
+  created_at: Date;
+  updated_at: Date;
+  game_id: string;
+  // Our mirrored copy of the cover image, or the scraped URL when mirroring
+  // is off or failed
+  image_url: string | null;
+  // The scraped URL, kept for attribution; see ImageMirrorService
+  original_image_url: string | null;
+  thumbnails: Record<string, string> | null;
+  type: NewsType;
+  url: string;
+  // See newsContentHash(); used to leave unchanged articles untouched
+  content_hash: string;
+  // See parserVersion(); the article parser, or the listing parser when the
+  // article could not be read
+  parser_version: string;
+}
+
+/**
+ * Hashes the scraped fields of a news item, so re-scraping an unchanged
+ * article does not bump `updated_at`.
+ */
+export function newsContentHash(item: NewsItem): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        item.title,
+        item.content,
+        item.body_html,
+        item.author,
+        item.images,
+        item.published_at?.toISOString(),
+        // Mirroring replaces image_url, so hash the scraped URL
+        item.original_image_url,
+        item.type,
+      ]),
+    )
+    .digest('hex');
+}
+
+export function validateNewsItem(item: NewsItem): string[] {
+  const errors: string[] = [];
+  requireString(errors, 'title', item.title);
+  requireOptionalString(errors, 'content', item.content);
+  requireOptionalString(errors, 'body_html', item.body_html);
+  requireOptionalString(errors, 'body_markdown', item.body_markdown);
+  requireOptionalString(errors, 'author', item.author);
+  if (!Array.isArray(item.images)) {
+    errors.push('images must be an array');
+  } else {
+    item.images.forEach((image, index) =>
+      requireUrl(errors, `images[${index}]`, image),
+    );
+  }
+  requireDate(errors, 'published_at', item.published_at);
+  requireDate(errors, 'created_at', item.created_at);
+  requireDate(errors, 'updated_at', item.updated_at);
+  requireString(errors, 'game_id', item.game_id);
+  requireUrl(errors, 'image_url', item.image_url, { nullable: true });
+  requireUrl(errors, 'original_image_url', item.original_image_url, {
+    nullable: true,
+  });
+  requireThumbnails(errors, item.thumbnails);
+  requireOneOf(errors, 'type', item.type, Object.values(NewsType));
+  requireUrl(errors, 'url', item.url);
+  requireString(errors, 'content_hash', item.content_hash);
+  requireString(errors, 'parser_version', item.parser_version);
+  return errors;
+}
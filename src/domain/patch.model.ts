@@ -0,0 +1,77 @@
+import {
+  requireDate,
+  requireOneOf,
+  requireOptionalString,
+  requireString,
+  requireUrl,
+} from './validation';
+
+export enum PatchChangeType {
+  Buff = 'buff',
+  Nerf = 'nerf',
+  BugFix = 'bugfix',
+  // A change that is neither clearly a buff nor a nerf, e.g. a rework
+  Adjustment = 'adjustment',
+}
+
+/**
+ * A row of `patches`; one per game update article.
+ */
+export interface Patch {
+  news_url: string;
+  // e.g. '20241206', taken from the article title or URL
+  version: string | null;
+  title: string;
+  published_at: Date;
+}
+
+/**
+ * A row of `patch_entries`: one change line of a patch. `hero_id` and
+ * `ability_id` are set when the names could be matched to stored rows.
+ */
+export interface PatchEntry {
+  patch_id: string;
+  position: number;
+  hero_id: string | null;
+  ability_id: string | null;
+  hero_name: string | null;
+  ability_name: string | null;
+  // Canonical stat key where possible, see AbilityStatsUtils.normalizeKey()
+  stat: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  change_type: PatchChangeType;
+  description: string;
+}
+
+export function validatePatch(patch: Patch): string[] {
+  const errors: string[] = [];
+  requireUrl(errors, 'news_url', patch.news_url);
+  requireOptionalString(errors, 'version', patch.version);
+  requireString(errors, 'title', patch.title);
+  requireDate(errors, 'published_at', patch.published_at);
+  return errors;
+}
+
+export function validatePatchEntry(entry: PatchEntry): string[] {
+  const errors: string[] = [];
+  requireString(errors, 'patch_id', entry.patch_id);
+  if (!Number.isInteger(entry.position) || entry.position < 0) {
+    errors.push('position must be a non-negative integer');
+  }
+  requireOptionalString(errors, 'hero_id', entry.hero_id);
+  requireOptionalString(errors, 'ability_id', entry.ability_id);
+  requireOptionalString(errors, 'hero_name', entry.hero_name);
+  requireOptionalString(errors, 'ability_name', entry.ability_name);
+  requireOptionalString(errors, 'stat', entry.stat);
+  requireOptionalString(errors, 'old_value', entry.old_value);
+  requireOptionalString(errors, 'new_value', entry.new_value);
+  requireOneOf(
+    errors,
+    'change_type',
+    entry.change_type,
+    Object.values(PatchChangeType),
+  );
+  requireString(errors, 'description', entry.description);
+  return errors;
+}
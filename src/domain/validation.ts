@@ -0,0 +1,102 @@
+/**
+ * Minimal runtime checks shared by the domain validators. Each validator
+ * returns a list of human readable problems; an empty list means valid.
+ */
+
+export function requireString(
+  errors: string[],
+  field: string,
+  value: unknown,
+  { allowEmpty = false } = {},
+) {
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+  } else if (!allowEmpty && value.trim() === '') {
+    errors.push(`${field} must not be empty`);
+  }
+}
+
+export function requireOptionalString(
+  errors: string[],
+  field: string,
+  value: unknown,
+) {
+  if (value !== null && value !== undefined && typeof value !== 'string') {
+    errors.push(`${field} must be a string or null`);
+  }
+}
+
+export function requireUrl(
+  errors: string[],
+  field: string,
+  value: unknown,
+  { nullable = false } = {},
+) {
+  if (nullable && (value === null || value === undefined)) {
+    return;
+  }
+  if (typeof value !== 'string' || !/^https?:\/\//.test(value)) {
+    errors.push(`${field} must be an absolute http(s) URL`);
+    return;
+  }
+  try {
+    new URL(value);
+  } catch {
+    errors.push(`${field} must be an absolute http(s) URL`);
+  }
+}
+
+export function requireOneOf<T extends string>(
+  errors: string[],
+  field: string,
+  value: unknown,
+  allowed: readonly T[],
+) {
+  if (!allowed.includes(value as T)) {
+    errors.push(`${field} must be one of ${allowed.join(', ')}`);
+  }
+}
+
+export function requireDate(errors: string[], field: string, value: unknown) {
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+    errors.push(`${field} must be a valid date`);
+  }
+}
+
+export function requireNullableInteger(
+  errors: string[],
+  field: string,
+  value: unknown,
+) {
+  if (value !== null && !Number.isInteger(value)) {
+    errors.push(`${field} must be an integer or null`);
+  }
+}
+
+export function requirePlainObject(
+  errors: string[],
+  field: string,
+  value: unknown,
+): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${field} must be an object`);
+    return false;
+  }
+  return true;
+}
+
+// Thumbnail URLs keyed by width in pixels; see ImageMirrorService
+export function requireThumbnails(errors: string[], value: unknown) {
+  if (value === null || value === undefined) {
+    return;
+  }
+  if (!requirePlainObject(errors, 'thumbnails', value)) {
+    return;
+  }
+  for (const [width, url] of Object.entries(value)) {
+    if (!/^[1-9]\d*$/.test(width)) {
+      errors.push(`thumbnails keys must be widths, got ${width}`);
+    }
+    requireUrl(errors, `thumbnails.${width}`, url);
+  }
+}
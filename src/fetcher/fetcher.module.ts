@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { FetcherService } from './fetcher.service';
+import { RobotsService } from './robots.service';
+import { HeadlessRendererService } from './headless-renderer.service';
+
+@Module({
+  providers: [FetcherService, RobotsService, HeadlessRendererService],
+  exports: [FetcherService, RobotsService],
+})
+export class FetcherModule {}
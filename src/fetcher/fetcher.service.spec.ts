@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FetcherService, ReplayMissError } from './fetcher.service';
+import { HeadlessRendererService } from './headless-renderer.service';
+import { RenderMode } from 'src/domain/game.model';
+
+const sleep = jest.fn<Promise<void>, [number]>();
+
+// Records waits instead of sleeping through them
+class TestFetcherService extends FetcherService {
+  protected sleep(ms: number): Promise<void> {
+    return sleep(ms);
+  }
+}
+
+describe('FetcherService', () => {
+  let service: FetcherService;
+  const httpGet = jest.fn();
+  const http: Partial<AxiosInstance> = { get: httpGet };
+  const headlessRenderer = { render: jest.fn() };
+  let config: Record<string, string>;
+
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), {
+      isAxiosError: true,
+      response: { status, headers },
+    });
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        { provide: FetcherService, useClass: TestFetcherService },
+        { provide: HeadlessRendererService, useValue: headlessRenderer },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<FetcherService>(FetcherService);
+  };
+
+  beforeEach(async () => {
+    httpGet.mockReset();
+    sleep.mockReset().mockResolvedValue(undefined);
+    jest.spyOn(axios, 'create').mockReturnValue(http as AxiosInstance);
+    config = {
+      SCRAPER_USER_AGENT: 'TestBot/1.0',
+      SCRAPER_MAX_RETRIES: '2',
+      SCRAPER_MIN_INTERVAL_MS: '0',
+    };
+
+    service = await createService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should send the configured User-Agent', async () => {
+    httpGet.mockResolvedValue({ status: 200, headers: {}, data: '<html>' });
+
+    const response = await service.get('https://example.com/page');
+
+    expect(response.data).toBe('<html>');
+    expect(httpGet).toHaveBeenCalledWith(
+      'https://example.com/page',
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'User-Agent': 'TestBot/1.0' }),
+      }),
+    );
+  });
+
+  it('should retry 429 responses honoring Retry-After', async () => {
+    httpGet
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '7' }))
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: 'ok' });
+
+    await expect(service.get('https://example.com/a')).resolves.toEqual(
+      expect.objectContaining({ status: 200 }),
+    );
+    expect(sleep).toHaveBeenCalledWith(7000);
+    expect(service.getMetrics()['example.com']).toEqual(
+      expect.objectContaining({
+        requests: 2,
+        successes: 1,
+        failures: 1,
+        retries: 1,
+        statuses: { 200: 1, 429: 1 },
+      }),
+    );
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    httpGet.mockRejectedValue(httpError(503));
+
+    await expect(service.get('https://example.com/down')).rejects.toThrow(
+      'status code 503',
+    );
+    expect(httpGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    httpGet.mockRejectedValue(httpError(404));
+
+    await expect(service.get('https://example.com/missing')).rejects.toThrow();
+    expect(httpGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should space out requests to the same host', async () => {
+    httpGet.mockResolvedValue({ status: 200, headers: {}, data: '' });
+    service.setMinInterval('example.com', 5000);
+
+    await service.get('https://example.com/1');
+    await service.get('https://example.com/2');
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(4000);
+  });
+
+  it('should fetch binary resources as buffers', async () => {
+    httpGet.mockResolvedValue({
+      status: 200,
+      headers: { 'content-type': 'image/png' },
+      data: new Uint8Array([137, 80, 78, 71]).buffer,
+    });
+
+    const response = await service.getBuffer('https://example.com/hero.png');
+
+    expect(response.data).toEqual(Buffer.from([137, 80, 78, 71]));
+    expect(httpGet).toHaveBeenCalledWith(
+      'https://example.com/hero.png',
+      expect.objectContaining({ responseType: 'arraybuffer' }),
+    );
+  });
+
+  it('should render headless requests in the browser pool', async () => {
+    headlessRenderer.render.mockResolvedValue({
+      status: 200,
+      html: '<div id="mr-main"><a>Storm</a></div>',
+    });
+
+    await expect(
+      service.get('https://example.com/wiki/Heroes', {
+        render: RenderMode.Headless,
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        status: 200,
+        data: '<div id="mr-main"><a>Storm</a></div>',
+      }),
+    );
+    expect(headlessRenderer.render).toHaveBeenCalledWith(
+      'https://example.com/wiki/Heroes',
+      expect.any(String),
+    );
+    expect(httpGet).not.toHaveBeenCalled();
+  });
+
+  describe('record and replay', () => {
+    let recordingsDir: string;
+
+    beforeEach(() => {
+      recordingsDir = mkdtempSync(join(tmpdir(), 'fetcher-recordings-'));
+      config.FETCHER_RECORDINGS_DIR = recordingsDir;
+    });
+
+    afterEach(() => {
+      rmSync(recordingsDir, { recursive: true, force: true });
+    });
+
+    it('should replay recorded responses without touching the network', async () => {
+      config.FETCHER_MODE = 'record';
+      const recorder = await createService();
+      httpGet.mockResolvedValue({
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+        data: '<div id="mr-main"></div>',
+      });
+
+      await recorder.get('https://example.com/wiki/Heroes');
+      expect(readdirSync(recordingsDir)).toHaveLength(1);
+
+      config.FETCHER_MODE = 'replay';
+      const replayer = await createService();
+      httpGet.mockReset();
+
+      await expect(
+        replayer.get('https://example.com/wiki/Heroes'),
+      ).resolves.toEqual({
+        url: 'https://example.com/wiki/Heroes',
+        status: 200,
+        headers: { 'content-type': 'text/html' },
+        data: '<div id="mr-main"></div>',
+      });
+      expect(httpGet).not.toHaveBeenCalled();
+    });
+
+    it('should fail loudly on a replay miss', async () => {
+      config.FETCHER_MODE = 'replay';
+      const replayer = await createService();
+
+      await expect(
+        replayer.get('https://example.com/wiki/Unrecorded'),
+      ).rejects.toBeInstanceOf(ReplayMissError);
+      expect(httpGet).not.toHaveBeenCalled();
+    });
+  });
+});
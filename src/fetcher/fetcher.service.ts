@@ -0,0 +1,376 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  RawAxiosRequestHeaders,
+} from 'axios';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve as resolvePath } from 'path';
+import { RenderMode } from 'src/domain/game.model';
+import { HeadlessRendererService } from './headless-renderer.service';
+
+/**
+ * - `live` talks to the network only.
+ * - `record` talks to the network and saves every response.
+ * - `replay` serves saved responses only and never touches the network.
+ */
+export type FetcherMode = 'live' | 'record' | 'replay';
+
+export class ReplayMissError extends Error {
+  constructor(readonly url: string) {
+    super(`No recorded response for ${url} (FETCHER_MODE=replay)`);
+    this.name = ReplayMissError.name;
+  }
+}
+
+export interface FetchOptions {
+  headers?: RawAxiosRequestHeaders;
+  // Statuses that should be returned instead of thrown, e.g. 404 for robots.txt
+  acceptStatuses?: number[];
+  // Headless requests are rendered in a browser and never retried
+  render?: RenderMode;
+}
+
+export interface FetchResponse<T = string> {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+export interface HostMetrics {
+  requests: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  statuses: Record<number, number>;
+  averageLatencyMs: number;
+  lastRequestAt: string | null;
+}
+
+/**
+ * The single entry point for outbound scraper traffic. Requests are paced per
+ * host, retried with exponential backoff on 429/5xx and network errors, and
+ * always sent with the configured User-Agent.
+ */
+@Injectable()
+export class FetcherService {
+  private readonly logger = new Logger(FetcherService.name);
+
+  private readonly http: AxiosInstance;
+  private readonly mode: FetcherMode;
+  private readonly recordingsDir: string;
+  private readonly userAgent: string;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly defaultMinIntervalMs: number;
+  private readonly minIntervals = new Map<string, number>();
+
+  private readonly nextSlots = new Map<string, number>();
+  private readonly metrics = new Map<string, HostMetrics>();
+  private readonly latencyTotals = new Map<string, number>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly headlessRenderer: HeadlessRendererService,
+  ) {
+    this.userAgent = this.configService.get<string>(
+      'SCRAPER_USER_AGENT',
+      'ENDGMEBot/1.0',
+    );
+    this.maxRetries = Number(this.configService.get('SCRAPER_MAX_RETRIES', 3));
+    this.retryBaseDelayMs = Number(
+      this.configService.get('SCRAPER_RETRY_BASE_DELAY_MS', 1000),
+    );
+    this.maxRetryDelayMs = Number(
+      this.configService.get('SCRAPER_MAX_RETRY_DELAY_MS', 60000),
+    );
+    this.defaultMinIntervalMs = Number(
+      this.configService.get('SCRAPER_MIN_INTERVAL_MS', 1000),
+    );
+
+    // e.g. SCRAPER_HOST_INTERVALS={"marvelrivals.fandom.com":2000}
+    const hostIntervals = this.configService.get<string>(
+      'SCRAPER_HOST_INTERVALS',
+    );
+    if (hostIntervals) {
+      try {
+        for (const [host, interval] of Object.entries(
+          JSON.parse(hostIntervals),
+        )) {
+          this.minIntervals.set(host, Number(interval));
+        }
+      } catch (error) {
+        this.logger.error(
+          `Invalid SCRAPER_HOST_INTERVALS, using defaults: ${error.message}`,
+        );
+      }
+    }
+
+    this.mode = this.configService.get<FetcherMode>('FETCHER_MODE', 'live');
+    this.recordingsDir = resolvePath(
+      this.configService.get<string>('FETCHER_RECORDINGS_DIR', 'recordings'),
+    );
+    if (this.mode !== 'live') {
+      this.logger.log(
+        `Fetcher running in ${this.mode} mode using ${this.recordingsDir}.`,
+      );
+    }
+
+    this.http = axios.create({
+      timeout: Number(this.configService.get('SCRAPER_TIMEOUT_MS', 10000)),
+      responseType: 'text',
+    });
+  }
+
+  getUserAgent(): string {
+    return this.userAgent;
+  }
+
+  /**
+   * Raises the minimum delay between requests to `host`. Never lowers an
+   * interval configured through SCRAPER_HOST_INTERVALS.
+   */
+  setMinInterval(host: string, intervalMs: number) {
+    const current = this.minIntervals.get(host) ?? this.defaultMinIntervalMs;
+    this.minIntervals.set(host, Math.max(current, intervalMs));
+  }
+
+  getMetrics(): Record<string, HostMetrics> {
+    return Object.fromEntries(this.metrics);
+  }
+
+  async get(url: string, options: FetchOptions = {}): Promise<FetchResponse> {
+    const render = options.render ?? RenderMode.Static;
+    if (this.mode === 'replay') {
+      return this.replay(url, render);
+    }
+
+    const response =
+      render === RenderMode.Headless
+        ? await this.fetchHeadless(url)
+        : await this.fetchLive<string>(url, options, 'text');
+
+    if (this.mode === 'record') {
+      await this.recordResponse(response, render);
+    }
+
+    return response;
+  }
+
+  /**
+   * Fetches a binary resource such as an image, with the same pacing and
+   * retries as get(). Recordings keep the body base64-encoded.
+   */
+  async getBuffer(
+    url: string,
+    options: Omit<FetchOptions, 'render'> = {},
+  ): Promise<FetchResponse<Buffer>> {
+    if (this.mode === 'replay') {
+      const recorded = await this.replay(url, RenderMode.Static);
+      return { ...recorded, data: Buffer.from(recorded.data, 'base64') };
+    }
+
+    const response = await this.fetchLive<ArrayBuffer>(
+      url,
+      options,
+      'arraybuffer',
+    );
+    const data = Buffer.from(response.data);
+
+    if (this.mode === 'record') {
+      await this.recordResponse(
+        { ...response, data: data.toString('base64') },
+        RenderMode.Static,
+      );
+    }
+
+    return { ...response, data };
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private async fetchLive<T>(
+    url: string,
+    options: FetchOptions,
+    responseType: 'text' | 'arraybuffer',
+  ): Promise<FetchResponse<T>> {
+    const host = new URL(url).host;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(host);
+
+      const startedAt = Date.now();
+      try {
+        const response = await this.http.get<T>(url, {
+          headers: { ...options.headers, 'User-Agent': this.userAgent },
+          responseType,
+          validateStatus: (status) =>
+            (status >= 200 && status < 300) ||
+            (options.acceptStatuses ?? []).includes(status),
+        });
+
+        this.record(host, response.status, Date.now() - startedAt, true);
+
+        return {
+          url,
+          status: response.status,
+          headers: response.headers as Record<string, string>,
+          data: response.data,
+        };
+      } catch (error) {
+        const status = (error as AxiosError).response?.status;
+        this.record(host, status, Date.now() - startedAt, false);
+
+        if (attempt >= this.maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.retryDelay(error, attempt);
+        this.metrics.get(host).retries += 1;
+        this.logger.warn(
+          `Request to ${url} failed (${status ?? error.code ?? error.message}), ` +
+            `retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries}).`,
+        );
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  private async fetchHeadless(url: string): Promise<FetchResponse> {
+    const host = new URL(url).host;
+    await this.waitForSlot(host);
+
+    const startedAt = Date.now();
+    try {
+      const { status, html } = await this.headlessRenderer.render(
+        url,
+        this.userAgent,
+      );
+      this.record(host, status, Date.now() - startedAt, true);
+      return { url, status, headers: {}, data: html };
+    } catch (error) {
+      this.record(host, error.status, Date.now() - startedAt, false);
+      throw error;
+    }
+  }
+
+  // Static recordings keep their original key, so existing ones stay valid
+  private recordingPath(url: string, render: RenderMode): string {
+    const key = createHash('sha256')
+      .update(render === RenderMode.Headless ? `headless:${url}` : url)
+      .digest('hex');
+    return join(this.recordingsDir, `${key}.json`);
+  }
+
+  private async recordResponse(response: FetchResponse, render: RenderMode) {
+    await mkdir(this.recordingsDir, { recursive: true });
+    await writeFile(
+      this.recordingPath(response.url, render),
+      JSON.stringify(
+        { ...response, recorded_at: new Date().toISOString() },
+        null,
+        2,
+      ),
+    );
+  }
+
+  private async replay(
+    url: string,
+    render: RenderMode,
+  ): Promise<FetchResponse> {
+    let recording: string;
+    try {
+      recording = await readFile(this.recordingPath(url, render), 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new ReplayMissError(url);
+      }
+      throw error;
+    }
+
+    const { status, headers, data } = JSON.parse(recording);
+    this.record(new URL(url).host, status, 0, true);
+    return { url, status, headers, data };
+  }
+
+  /**
+   * Reserves the next request slot for `host` synchronously, so concurrent
+   * callers queue up behind each other instead of firing together.
+   */
+  private async waitForSlot(host: string) {
+    const interval = this.minIntervals.get(host) ?? this.defaultMinIntervalMs;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlots.get(host) ?? 0);
+    this.nextSlots.set(host, slot + interval);
+
+    if (slot > now) {
+      await this.sleep(slot - now);
+    }
+  }
+
+  private isRetryable(error: AxiosError): boolean {
+    const status = error.response?.status;
+    if (status === undefined) {
+      // Timeouts, resets and DNS failures
+      return axios.isAxiosError(error);
+    }
+    return status === 429 || status >= 500;
+  }
+
+  private retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = error.response?.headers?.['retry-after'];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds)
+        ? new Date(retryAfter).getTime() - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), this.maxRetryDelayMs);
+      }
+    }
+
+    const backoff = this.retryBaseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.retryBaseDelayMs;
+    return Math.min(backoff + jitter, this.maxRetryDelayMs);
+  }
+
+  private record(
+    host: string,
+    status: number | undefined,
+    latencyMs: number,
+    success: boolean,
+  ) {
+    const metrics = this.metrics.get(host) ?? {
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      retries: 0,
+      statuses: {},
+      averageLatencyMs: 0,
+      lastRequestAt: null,
+    };
+
+    metrics.requests += 1;
+    if (success) {
+      metrics.successes += 1;
+    } else {
+      metrics.failures += 1;
+    }
+    if (status !== undefined) {
+      metrics.statuses[status] = (metrics.statuses[status] ?? 0) + 1;
+    }
+
+    const totalLatency = (this.latencyTotals.get(host) ?? 0) + latencyMs;
+    this.latencyTotals.set(host, totalLatency);
+    metrics.averageLatencyMs = Math.round(totalLatency / metrics.requests);
+    metrics.lastRequestAt = new Date().toISOString();
+
+    this.metrics.set(host, metrics);
+  }
+}
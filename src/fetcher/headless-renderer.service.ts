@@ -0,0 +1,159 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+export class RenderError extends Error {
+  constructor(
+    readonly url: string,
+    readonly status: number,
+  ) {
+    super(`Rendering ${url} failed with status code ${status}`);
+    this.name = RenderError.name;
+  }
+}
+
+export interface RenderedPage {
+  status: number;
+  html: string;
+}
+
+interface Waiter {
+  resolve: (browser: Browser) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Renders pages in headless Chromium for content that is only filled in by
+ * JavaScript. Browsers are launched on first use and shared through a small
+ * pool; every page gets its own tab, which is closed after rendering. Only
+ * FetcherService should call this, so rendered requests are paced, counted
+ * and recorded like static ones.
+ */
+@Injectable()
+export class HeadlessRendererService implements OnModuleDestroy {
+  private readonly logger = new Logger(HeadlessRendererService.name);
+
+  private readonly poolSize: number;
+  private readonly timeoutMs: number;
+  // Resource types (see HTTPRequest.resourceType()) never downloaded
+  private readonly blockedResources: Set<string>;
+
+  private readonly idle: Browser[] = [];
+  private readonly waiting: Waiter[] = [];
+  private launched = 0;
+  private closing = false;
+
+  constructor(private readonly configService: ConfigService) {
+    this.poolSize = Math.max(
+      1,
+      Number(this.configService.get('HEADLESS_POOL_SIZE', 1)),
+    );
+    this.timeoutMs = Number(
+      this.configService.get('HEADLESS_TIMEOUT_MS', 30000),
+    );
+    this.blockedResources = new Set(
+      this.configService
+        .get<string>(
+          'HEADLESS_BLOCKED_RESOURCES',
+          'image,media,font,stylesheet',
+        )
+        .split(',')
+        .map((type) => type.trim())
+        .filter(Boolean),
+    );
+  }
+
+  async render(url: string, userAgent: string): Promise<RenderedPage> {
+    const browser = await this.acquire();
+    let page: Page | null = null;
+
+    try {
+      page = await browser.newPage();
+      page.setDefaultTimeout(this.timeoutMs);
+      await page.setUserAgent(userAgent);
+      await page.setRequestInterception(true);
+      page.on('request', (request) => {
+        if (this.blockedResources.has(request.resourceType())) {
+          void request.abort();
+        } else {
+          void request.continue();
+        }
+      });
+
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle2',
+        timeout: this.timeoutMs,
+      });
+      const status = response?.status() ?? 200;
+      if (status >= 400) {
+        throw new RenderError(url, status);
+      }
+
+      return { status, html: await page.content() };
+    } finally {
+      await page?.close().catch(() => undefined);
+      this.release(browser);
+    }
+  }
+
+  async onModuleDestroy() {
+    this.closing = true;
+    this.waiting
+      .splice(0)
+      .forEach(({ reject }) => reject(new Error('Renderer is shutting down')));
+    await Promise.all(
+      this.idle.splice(0).map((browser) => browser.close().catch(() => null)),
+    );
+  }
+
+  private async acquire(): Promise<Browser> {
+    if (this.closing) {
+      throw new Error('Renderer is shutting down');
+    }
+
+    const browser = this.idle.pop();
+    if (browser) {
+      return browser;
+    }
+
+    if (this.launched < this.poolSize) {
+      this.launched += 1;
+      try {
+        this.logger.log(
+          `Launching headless browser ${this.launched}/${this.poolSize}.`,
+        );
+        return await puppeteer.launch({
+          headless: true,
+          args: ['--disable-dev-shm-usage'],
+        });
+      } catch (error) {
+        this.launched -= 1;
+        throw error;
+      }
+    }
+
+    return new Promise((resolve, reject) =>
+      this.waiting.push({ resolve, reject }),
+    );
+  }
+
+  private release(browser: Browser) {
+    if (this.closing || !browser.connected) {
+      // Crashed or shutting down; free the slot for a fresh browser
+      this.launched -= 1;
+      void browser.close().catch(() => null);
+      const waiter = this.waiting.shift();
+      if (waiter) {
+        this.acquire().then(waiter.resolve, waiter.reject);
+      }
+      return;
+    }
+
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve(browser);
+    } else {
+      this.idle.push(browser);
+    }
+  }
+}
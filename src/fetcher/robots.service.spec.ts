@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FetcherService } from './fetcher.service';
+import { RobotsService } from './robots.service';
+
+describe('RobotsService', () => {
+  let service: RobotsService;
+  let config: Record<string, string>;
+  const fetcherService = {
+    get: jest.fn(),
+    getUserAgent: () => 'ENDGMEBot/1.0',
+    setMinInterval: jest.fn(),
+  };
+
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /private/',
+    '',
+    'User-agent: ENDGMEBot',
+    'Disallow: /wiki/Special:',
+    'Crawl-delay: 3',
+  ].join('\n');
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RobotsService,
+        { provide: FetcherService, useValue: fetcherService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<RobotsService>(RobotsService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    config = {};
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should evaluate rules for our User-Agent and cache them per origin', async () => {
+    fetcherService.get.mockResolvedValue({ status: 200, data: robotsTxt });
+
+    await expect(
+      service.isAllowed('https://wiki.example.com/wiki/Special:Random'),
+    ).resolves.toBe(false);
+    // The '*' group does not apply once a specific group matches
+    await expect(
+      service.isAllowed('https://wiki.example.com/private/page'),
+    ).resolves.toBe(true);
+
+    expect(fetcherService.get).toHaveBeenCalledTimes(1);
+    expect(fetcherService.get).toHaveBeenCalledWith(
+      'https://wiki.example.com/robots.txt',
+      expect.anything(),
+    );
+  });
+
+  it('should feed Crawl-delay into the fetcher pacing', async () => {
+    fetcherService.get.mockResolvedValue({ status: 200, data: robotsTxt });
+
+    await service.isAllowed('https://wiki.example.com/wiki/Hulk');
+
+    expect(fetcherService.setMinInterval).toHaveBeenCalledWith(
+      'wiki.example.com',
+      3000,
+    );
+    expect(service.getCachedRules()).toEqual([
+      expect.objectContaining({
+        origin: 'https://wiki.example.com',
+        status: 'fetched',
+        crawl_delay: 3,
+      }),
+    ]);
+  });
+
+  it('should allow everything when robots.txt does not exist', async () => {
+    fetcherService.get.mockResolvedValue({ status: 404, data: '' });
+
+    await expect(
+      service.isAllowed('https://example.com/anything'),
+    ).resolves.toBe(true);
+  });
+
+  it('should deny on fetch failures with the deny policy', async () => {
+    config.ROBOTS_FAILURE_POLICY = 'deny';
+    service = await createService();
+    fetcherService.get.mockRejectedValue(new Error('socket hang up'));
+
+    await expect(service.isAllowed('https://example.com/page')).resolves.toBe(
+      false,
+    );
+  });
+
+  it('should retry a failed fetch before the cache TTL is up', async () => {
+    config.ROBOTS_ERROR_RETRY_MS = '0';
+    service = await createService();
+    fetcherService.get
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ status: 200, data: robotsTxt });
+
+    await service.isAllowed('https://example.com/page');
+    await expect(
+      service.isAllowed('https://example.com/wiki/Special:Random'),
+    ).resolves.toBe(false);
+
+    expect(fetcherService.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep using the last known copy when a refresh fails', async () => {
+    config.ROBOTS_CACHE_TTL_MS = '0';
+    service = await createService();
+    fetcherService.get
+      .mockResolvedValueOnce({ status: 200, data: robotsTxt })
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'));
+
+    await service.isAllowed('https://wiki.example.com/wiki/Hulk');
+    await expect(
+      service.isAllowed('https://wiki.example.com/wiki/Special:Random'),
+    ).resolves.toBe(false);
+
+    expect(fetcherService.get).toHaveBeenCalledTimes(2);
+    expect(service.getCachedRules()[0].error).toBe('503 Service Unavailable');
+  });
+});
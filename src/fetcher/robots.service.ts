@@ -0,0 +1,191 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as robotsParserModule from 'robots-parser';
+import { FetcherService } from './fetcher.service';
+
+// robots-parser is typed with a default export but ships `module.exports = fn`;
+// without esModuleInterop the default import is undefined at runtime.
+const robotsParser =
+  robotsParserModule as unknown as typeof robotsParserModule.default;
+
+export type RobotsFailurePolicy = 'allow' | 'deny' | 'last-known';
+
+type Robot = ReturnType<typeof robotsParser>;
+
+interface RobotsEntry {
+  origin: string;
+  // `missing` means the site has no robots.txt (4xx), which allows everything
+  status: 'fetched' | 'missing' | 'error';
+  robots: Robot | null;
+  content: string | null;
+  fetchedAt: Date;
+  expiresAt: Date;
+  error: string | null;
+}
+
+export interface RobotsRulesView {
+  origin: string;
+  status: RobotsEntry['status'];
+  user_agent: string;
+  crawl_delay: number | null;
+  sitemaps: string[];
+  fetched_at: string;
+  expires_at: string;
+  error: string | null;
+  content: string | null;
+}
+
+/**
+ * Caches robots.txt per origin and evaluates URLs against the User-Agent the
+ * fetcher actually sends. Crawl-delay directives raise the fetcher's pacing
+ * for that host.
+ */
+@Injectable()
+export class RobotsService {
+  private readonly logger = new Logger(RobotsService.name);
+
+  private readonly ttlMs: number;
+  // A failed fetch is retried sooner than a successful one is refreshed
+  private readonly errorRetryMs: number;
+  private readonly failurePolicy: RobotsFailurePolicy;
+
+  private readonly cache = new Map<string, RobotsEntry>();
+  private readonly pending = new Map<string, Promise<RobotsEntry>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fetcherService: FetcherService,
+  ) {
+    this.ttlMs = Number(
+      this.configService.get('ROBOTS_CACHE_TTL_MS', 24 * 60 * 60 * 1000),
+    );
+    this.errorRetryMs = Number(
+      this.configService.get('ROBOTS_ERROR_RETRY_MS', 5 * 60 * 1000),
+    );
+    this.failurePolicy = this.configService.get<RobotsFailurePolicy>(
+      'ROBOTS_FAILURE_POLICY',
+      'last-known',
+    );
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const entry = await this.getEntry(new URL(url).origin);
+
+    if (entry.status === 'error') {
+      // 'last-known' only gets here without a previous copy; allow as before
+      return this.failurePolicy !== 'deny';
+    }
+
+    if (!entry.robots) {
+      return true;
+    }
+
+    return (
+      entry.robots.isAllowed(url, this.fetcherService.getUserAgent()) ?? true
+    );
+  }
+
+  getCachedRules(): RobotsRulesView[] {
+    const userAgent = this.fetcherService.getUserAgent();
+
+    return [...this.cache.values()].map((entry) => ({
+      origin: entry.origin,
+      status: entry.status,
+      user_agent: userAgent,
+      crawl_delay: entry.robots?.getCrawlDelay(userAgent) ?? null,
+      sitemaps: entry.robots?.getSitemaps() ?? [],
+      fetched_at: entry.fetchedAt.toISOString(),
+      expires_at: entry.expiresAt.toISOString(),
+      error: entry.error,
+      content: entry.content,
+    }));
+  }
+
+  private async getEntry(origin: string): Promise<RobotsEntry> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt.getTime() > Date.now()) {
+      return cached;
+    }
+
+    // Concurrent callers share a single robots.txt request per origin
+    if (!this.pending.has(origin)) {
+      this.pending.set(
+        origin,
+        this.load(origin, cached).finally(() => this.pending.delete(origin)),
+      );
+    }
+
+    return this.pending.get(origin);
+  }
+
+  private async load(
+    origin: string,
+    previous: RobotsEntry | undefined,
+  ): Promise<RobotsEntry> {
+    const robotsUrl = `${origin}/robots.txt`;
+    const fetchedAt = new Date();
+    const expiresAt = new Date(fetchedAt.getTime() + this.ttlMs);
+
+    let entry: RobotsEntry;
+    try {
+      const { status, data } = await this.fetcherService.get(robotsUrl, {
+        acceptStatuses: [401, 403, 404, 410],
+      });
+
+      if (status >= 400) {
+        entry = {
+          origin,
+          status: 'missing',
+          robots: null,
+          content: null,
+          fetchedAt,
+          expiresAt,
+          error: null,
+        };
+      } else {
+        entry = {
+          origin,
+          status: 'fetched',
+          robots: robotsParser(robotsUrl, data),
+          content: data,
+          fetchedAt,
+          expiresAt,
+          error: null,
+        };
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not fetch ${robotsUrl}: ${error.message}. Applying '${this.failurePolicy}' policy.`,
+      );
+
+      const retryAt = new Date(fetchedAt.getTime() + this.errorRetryMs);
+      if (this.failurePolicy === 'last-known' && previous?.robots) {
+        // Keep serving the old rules until the retry
+        entry = { ...previous, expiresAt: retryAt, error: error.message };
+      } else {
+        entry = {
+          origin,
+          status: 'error',
+          robots: null,
+          content: null,
+          fetchedAt,
+          expiresAt: retryAt,
+          error: error.message,
+        };
+      }
+    }
+
+    const crawlDelay = entry.robots?.getCrawlDelay(
+      this.fetcherService.getUserAgent(),
+    );
+    if (crawlDelay) {
+      this.fetcherService.setMinInterval(
+        new URL(origin).host,
+        crawlDelay * 1000,
+      );
+    }
+
+    this.cache.set(origin, entry);
+    return entry;
+  }
+}
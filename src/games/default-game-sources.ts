@@ -0,0 +1,19 @@
+import { GameSource, ParserSet } from 'src/domain/game.model';
+import { NewsType } from 'src/domain/news.model';
+
+// Used when GAME_SOURCES_PATH is not set
+export const DEFAULT_GAME_SOURCES: GameSource[] = [
+  {
+    id: 'acbbf41e-1049-4adf-8b86-4033a324d404',
+    slug: 'marvel-rivals',
+    name: 'Marvel Rivals',
+    news_sources: [
+      { url: 'https://marvelrivals.com/news/', type: NewsType.Announcement },
+      { url: 'https://marvelrivals.com/gameupdate/', type: NewsType.Update },
+      { url: 'https://marvelrivals.com/devdiaries/', type: NewsType.DevDiary },
+    ],
+    wiki_base_url: 'https://marvelrivals.fandom.com/wiki/',
+    heroes_page: 'Heroes',
+    parser_set: ParserSet.MarvelRivals,
+  },
+];
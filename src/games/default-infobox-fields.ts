@@ -0,0 +1,62 @@
+import { InfoboxField, InfoboxFieldType } from 'src/domain/hero.model';
+
+// Used for games without infobox_fields; matches the fandom hero infobox
+export const DEFAULT_INFOBOX_FIELDS: InfoboxField[] = [
+  { key: 'health', sources: ['health', 'hp'], type: InfoboxFieldType.Integer },
+  {
+    key: 'difficulty',
+    sources: ['difficulty'],
+    type: InfoboxFieldType.Stars,
+  },
+  { key: 'role', sources: ['role', 'class'], type: InfoboxFieldType.Text },
+  {
+    key: 'movement_speed',
+    sources: ['movement_speed', 'move_speed', 'speed'],
+    type: InfoboxFieldType.Number,
+  },
+  {
+    key: 'armor',
+    sources: ['armor', 'armour'],
+    type: InfoboxFieldType.Integer,
+  },
+  {
+    key: 'shields',
+    sources: ['shields', 'shield'],
+    type: InfoboxFieldType.Integer,
+  },
+  {
+    key: 'release_date',
+    sources: ['release_date', 'released'],
+    type: InfoboxFieldType.Date,
+  },
+  {
+    key: 'season',
+    sources: ['season', 'release_season', 'release'],
+    type: InfoboxFieldType.Text,
+  },
+  {
+    key: 'team_up_anchors',
+    sources: ['team_up_anchor', 'team_up_anchors', 'anchor'],
+    type: InfoboxFieldType.List,
+  },
+  {
+    key: 'real_name',
+    sources: ['real_name', 'realname'],
+    type: InfoboxFieldType.Text,
+  },
+  {
+    key: 'affiliations',
+    sources: ['affiliation', 'affiliations', 'team', 'teams'],
+    type: InfoboxFieldType.List,
+  },
+  {
+    key: 'first_appearance',
+    sources: ['first_appearance', 'debut'],
+    type: InfoboxFieldType.Text,
+  },
+  {
+    key: 'voice_actor',
+    sources: ['voice_actor', 'voice_actors', 'voice', 'va'],
+    type: InfoboxFieldType.Text,
+  },
+];
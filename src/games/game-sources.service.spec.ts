@@ -0,0 +1,87 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameSourcesService } from './game-sources.service';
+import { DEFAULT_GAME_SOURCES } from './default-game-sources';
+
+describe('GameSourcesService', () => {
+  const createService = async (path?: string) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameSourcesService,
+        { provide: ConfigService, useValue: { get: () => path } },
+      ],
+    }).compile();
+
+    return module.get<GameSourcesService>(GameSourcesService);
+  };
+
+  const writeSources = (sources: unknown) => {
+    const path = join(mkdtempSync(join(tmpdir(), 'game-sources-')), 'x.json');
+    writeFileSync(path, JSON.stringify(sources));
+    return path;
+  };
+
+  it('should fall back to the built-in sources', async () => {
+    const service = await createService();
+
+    expect(service.findAll()).toBe(DEFAULT_GAME_SOURCES);
+    expect(service.findById(DEFAULT_GAME_SOURCES[0].id)?.slug).toBe(
+      'marvel-rivals',
+    );
+    expect(service.findById('unknown')).toBeNull();
+  });
+
+  it('should load sources from GAME_SOURCES_PATH', async () => {
+    const sources = [
+      ...DEFAULT_GAME_SOURCES,
+      {
+        id: 'game-2',
+        slug: 'other-game',
+        name: 'Other Game',
+        news_sources: [
+          { url: 'https://example.com/news/', type: 'announcement' },
+        ],
+        wiki_base_url: null,
+        heroes_page: null,
+        parser_set: 'marvel-rivals',
+      },
+    ];
+
+    const service = await createService(writeSources(sources));
+
+    expect(service.findAll().map((game) => game.slug)).toEqual([
+      'marvel-rivals',
+      'other-game',
+    ]);
+  });
+
+  it('should refuse an invalid registry', async () => {
+    const path = writeSources([
+      { ...DEFAULT_GAME_SOURCES[0], parser_set: 'unknown' },
+      { ...DEFAULT_GAME_SOURCES[0], wiki_base_url: null },
+    ]);
+
+    await expect(createService(path)).rejects.toThrow(
+      /parser_set must be one of marvel-rivals; .*heroes_page requires a wiki_base_url; slugs must be unique/,
+    );
+  });
+
+  it('should refuse infobox fields that change a built-in stat type', async () => {
+    const path = writeSources([
+      {
+        ...DEFAULT_GAME_SOURCES[0],
+        infobox_fields: [
+          { key: 'health', sources: ['hp'], type: 'text' },
+          { key: 'Ult Cost', sources: [], type: 'integer' },
+        ],
+      },
+    ]);
+
+    await expect(createService(path)).rejects.toThrow(
+      /infobox_fields\[0\]\.type must be integer for health; .*infobox_fields\[1\]\.key must be snake_case; .*infobox_fields\[1\]\.sources must be a non-empty array of strings/,
+    );
+  });
+});
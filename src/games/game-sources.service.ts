@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { resolve as resolvePath } from 'path';
+import { GameSource, validateGameSource } from 'src/domain/game.model';
+import { DEFAULT_GAME_SOURCES } from './default-game-sources';
+
+/**
+ * The registry of games the scrapers cover. Sources are read once at startup
+ * from the JSON file at GAME_SOURCES_PATH (an array of GameSource), or fall
+ * back to DEFAULT_GAME_SOURCES. An invalid file stops the app from starting
+ * rather than scraping a partial registry.
+ */
+@Injectable()
+export class GameSourcesService {
+  private readonly logger = new Logger(GameSourcesService.name);
+  private readonly games: GameSource[];
+
+  constructor(private readonly configService: ConfigService) {
+    const path = this.configService.get<string>('GAME_SOURCES_PATH');
+    this.games = path ? this.load(resolvePath(path)) : DEFAULT_GAME_SOURCES;
+    this.logger.log(
+      `Scraping ${this.games.length} game(s): ${this.games.map((game) => game.slug).join(', ')}`,
+    );
+  }
+
+  findAll(): GameSource[] {
+    return this.games;
+  }
+
+  findById(id: string): GameSource | null {
+    return this.games.find((game) => game.id === id) ?? null;
+  }
+
+  private load(path: string): GameSource[] {
+    let games: unknown;
+    try {
+      games = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read game sources ${path}: ${error.message}`);
+    }
+
+    if (!Array.isArray(games) || games.length === 0) {
+      throw new Error(`Game sources ${path} must be a non-empty array`);
+    }
+
+    const errors = (games as GameSource[]).flatMap((game, index) =>
+      validateGameSource(game).map(
+        (error) => `${game?.slug ?? `[${index}]`}: ${error}`,
+      ),
+    );
+    const slugs = games.map((game: GameSource) => game.slug);
+    const ids = games.map((game: GameSource) => game.id);
+    if (new Set(slugs).size !== slugs.length) {
+      errors.push('slugs must be unique');
+    }
+    if (new Set(ids).size !== ids.length) {
+      errors.push('ids must be unique');
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid game sources ${path}: ${errors.join('; ')}`);
+    }
+
+    return games as GameSource[];
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { GameSourcesService } from './game-sources.service';
+
+@Module({
+  providers: [GameSourcesService],
+  exports: [GameSourcesService],
+})
+export class GamesModule {}
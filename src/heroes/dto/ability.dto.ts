@@ -0,0 +1,16 @@
+import { AbilityStats } from 'src/domain/ability.model';
+
+export class AbilityDto {
+  id: string;
+  hero_id: string;
+  slug: string;
+  name: string;
+  type: string;
+  description: string;
+  stats: AbilityStats;
+  team_up: boolean;
+  // Other heroes sharing this team-up ability; empty for regular abilities
+  team_up_hero_ids: string[];
+  retired_at: string | null;
+  parser_version: string | null;
+}
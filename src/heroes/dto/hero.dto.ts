@@ -0,0 +1,31 @@
+import { SortOrder } from 'src/common/pagination';
+import { HeroLore, HeroStats, HeroType } from 'src/domain/hero.model';
+
+export enum HeroSortField {
+  Name = 'name',
+  Type = 'type',
+  CreatedAt = 'created_at',
+}
+
+export class HeroDto {
+  id: string;
+  name: string;
+  type: HeroType;
+  image_url: string | null;
+  original_image_url: string | null;
+  thumbnails: Record<string, string> | null;
+  lore: string | null;
+  lore_details: HeroLore | null;
+  stats: HeroStats | null;
+  game_id: string;
+  created_at: string;
+  parser_version: string | null;
+}
+
+export interface ListHeroesQuery {
+  type?: HeroType;
+  page: number;
+  limit: number;
+  sort: HeroSortField;
+  order: SortOrder;
+}
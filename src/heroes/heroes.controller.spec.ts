@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SortOrder } from 'src/common/pagination';
+import { HeroType } from 'src/domain/hero.model';
+import { HeroesController } from './heroes.controller';
+import { HeroesService } from './heroes.service';
+import { HeroSortField } from './dto/hero.dto';
+
+describe('HeroesController', () => {
+  let controller: HeroesController;
+  const heroesService = {
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    findAbilities: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HeroesController],
+      providers: [{ provide: HeroesService, useValue: heroesService }],
+    }).compile();
+
+    controller = module.get<HeroesController>(HeroesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should forward list filters to the service', async () => {
+    await controller.findAll(
+      HeroType.Duelist,
+      2,
+      10,
+      HeroSortField.Name,
+      SortOrder.Desc,
+    );
+
+    expect(heroesService.findAll).toHaveBeenCalledWith({
+      type: HeroType.Duelist,
+      page: 2,
+      limit: 10,
+      sort: HeroSortField.Name,
+      order: SortOrder.Desc,
+    });
+  });
+});
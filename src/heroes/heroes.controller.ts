@@ -0,0 +1,66 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseBoolPipe,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE, SortOrder } from 'src/common/pagination';
+import { HeroType } from 'src/domain/hero.model';
+import { HeroesService } from './heroes.service';
+import { HeroSortField } from './dto/hero.dto';
+
+@Controller('heroes')
+export class HeroesController {
+  constructor(private readonly heroesService: HeroesService) {}
+
+  @Get()
+  async findAll(
+    @Query('type', new ParseEnumPipe(HeroType, { optional: true }))
+    type: HeroType | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+    @Query(
+      'sort',
+      new DefaultValuePipe(HeroSortField.Name),
+      new ParseEnumPipe(HeroSortField),
+    )
+    sort: HeroSortField,
+    @Query(
+      'order',
+      new DefaultValuePipe(SortOrder.Asc),
+      new ParseEnumPipe(SortOrder),
+    )
+    order: SortOrder,
+  ) {
+    return this.heroesService.findAll({ type, page, limit, sort, order });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.heroesService.findOne(id);
+  }
+
+  @Get(':id/abilities')
+  async findAbilities(
+    @Param('id') id: string,
+    @Query('include_retired', new DefaultValuePipe(false), ParseBoolPipe)
+    includeRetired: boolean,
+  ) {
+    return this.heroesService.findAbilities(id, includeRetired);
+  }
+
+  @Get(':id/history')
+  async findHistory(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    return this.heroesService.findHistory(id, page, limit);
+  }
+}
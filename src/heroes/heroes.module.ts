@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { HistoryModule } from 'src/history/history.module';
+import { HeroesController } from './heroes.controller';
+import { HeroesService } from './heroes.service';
+
+@Module({
+  imports: [SupabaseModule, HistoryModule],
+  controllers: [HeroesController],
+  providers: [HeroesService],
+})
+export class HeroesModule {}
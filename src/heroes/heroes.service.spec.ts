@@ -0,0 +1,126 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { SortOrder } from 'src/common/pagination';
+import { HeroType } from 'src/domain/hero.model';
+import { HistoryService } from 'src/history/history.service';
+import { HeroesService } from './heroes.service';
+import { HeroSortField } from './dto/hero.dto';
+
+describe('HeroesService', () => {
+  let service: HeroesService;
+  let result: { data: any; count?: number; error: any };
+  const query: Record<string, jest.Mock> = {};
+  const historyService = { findHeroHistory: jest.fn() };
+
+  beforeEach(async () => {
+    result = { data: [], count: 0, error: null };
+    for (const method of [
+      'from',
+      'select',
+      'eq',
+      'neq',
+      'in',
+      'is',
+      'order',
+      'range',
+      'maybeSingle',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) => resolve(result));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HeroesService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+        { provide: HistoryService, useValue: historyService },
+      ],
+    }).compile();
+
+    service = module.get<HeroesService>(HeroesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should filter, sort and paginate heroes', async () => {
+    result = { data: [{ id: '1', name: 'Hulk' }], count: 31, error: null };
+
+    const page = await service.findAll({
+      type: HeroType.Vanguard,
+      page: 2,
+      limit: 10,
+      sort: HeroSortField.Name,
+      order: SortOrder.Asc,
+    });
+
+    expect(query.eq).toHaveBeenCalledWith('type', HeroType.Vanguard);
+    expect(query.order).toHaveBeenCalledWith('name', { ascending: true });
+    expect(query.range).toHaveBeenCalledWith(10, 19);
+    expect(page).toEqual({
+      data: [{ id: '1', name: 'Hulk' }],
+      page: 2,
+      limit: 10,
+      total: 31,
+    });
+  });
+
+  it('should throw NotFoundException for an unknown hero', async () => {
+    result = { data: null, error: null };
+
+    await expect(service.findOne('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('should hide retired abilities and link team-up partners', async () => {
+    const hero = {
+      data: { id: 'hero-1', name: 'Hulk', game_id: 'game-1' },
+      error: null,
+    };
+    const abilities = {
+      data: [
+        { slug: 'gamma-burst', team_up: false },
+        { slug: 'gamma-charge', team_up: true },
+      ],
+      error: null,
+    };
+    const gameHeroes = {
+      data: [{ id: 'hero-2' }, { id: 'hero-3' }],
+      error: null,
+    };
+    const partners = {
+      data: [
+        { hero_id: 'hero-2', slug: 'gamma-charge' },
+        { hero_id: 'hero-3', slug: 'gamma-charge' },
+      ],
+      error: null,
+    };
+    const responses = [hero, abilities, gameHeroes, partners];
+    query.then.mockImplementation((resolve) => resolve(responses.shift()));
+
+    const result = await service.findAbilities('hero-1');
+
+    expect(query.is).toHaveBeenCalledWith('retired_at', null);
+    expect(query.in).toHaveBeenCalledWith('slug', ['gamma-charge']);
+    // Team-up slugs are shared across games, so partners stay in this one
+    expect(query.eq).toHaveBeenCalledWith('game_id', 'game-1');
+    expect(query.neq).toHaveBeenCalledWith('id', 'hero-1');
+    expect(query.in).toHaveBeenCalledWith('hero_id', ['hero-2', 'hero-3']);
+    expect(result.map((ability) => ability.team_up_hero_ids)).toEqual([
+      [],
+      ['hero-2', 'hero-3'],
+    ]);
+  });
+
+  it('should not read history for an unknown hero', async () => {
+    result = { data: null, error: null };
+
+    await expect(service.findHistory('missing', 1, 20)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(historyService.findHeroHistory).not.toHaveBeenCalled();
+  });
+});
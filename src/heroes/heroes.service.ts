@@ -0,0 +1,176 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, SortOrder, toRange } from 'src/common/pagination';
+import { HistoryService } from 'src/history/history.service';
+import { StatSnapshotDto } from 'src/history/dto/stat-snapshot.dto';
+import { HeroDto, ListHeroesQuery } from './dto/hero.dto';
+import { AbilityDto } from './dto/ability.dto';
+
+@Injectable()
+export class HeroesService {
+  private readonly logger = new Logger(HeroesService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly historyService: HistoryService,
+  ) {}
+
+  async findAll(query: ListHeroesQuery): Promise<PaginatedResponse<HeroDto>> {
+    const [from, to] = toRange(query.page, query.limit);
+
+    let request = this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .select('*', { count: 'exact' });
+
+    if (query.type) {
+      request = request.eq('type', query.type);
+    }
+
+    const { data, count, error } = await request
+      .order(query.sort, { ascending: query.order === SortOrder.Asc })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching heroes: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch heroes');
+    }
+
+    return {
+      data: data ?? [],
+      page: query.page,
+      limit: query.limit,
+      total: count ?? 0,
+    };
+  }
+
+  async findOne(id: string): Promise<HeroDto> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Error fetching hero ${id}: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch hero');
+    }
+
+    if (!data) {
+      throw new NotFoundException(`Hero ${id} not found`);
+    }
+
+    return data;
+  }
+
+  async findAbilities(
+    heroId: string,
+    includeRetired = false,
+  ): Promise<AbilityDto[]> {
+    // Resolve the hero first so unknown ids return 404 rather than []
+    const hero = await this.findOne(heroId);
+
+    let request = this.supabaseService
+      .getClient()
+      .from('marvel_rivals_abilities')
+      .select('*')
+      .eq('hero_id', heroId);
+
+    if (!includeRetired) {
+      request = request.is('retired_at', null);
+    }
+
+    const { data, error } = await request.order('name', { ascending: true });
+
+    if (error) {
+      this.logger.error(
+        `Error fetching abilities for hero ${heroId}: ${error.message}`,
+      );
+      throw new InternalServerErrorException('Could not fetch abilities');
+    }
+
+    const partners = await this.findTeamUpPartners(
+      hero,
+      (data ?? []).filter((ability) => ability.team_up),
+    );
+
+    return (data ?? []).map((ability) => ({
+      ...ability,
+      team_up_hero_ids: partners.get(ability.slug) ?? [],
+    }));
+  }
+
+  /**
+   * Team-up abilities are stored per hero; the heroes sharing one are found
+   * through the common slug. Slugs are only unique within a game, so only
+   * heroes of the same game are considered.
+   */
+  private async findTeamUpPartners(
+    hero: HeroDto,
+    teamUps: Array<{ slug: string }>,
+  ): Promise<Map<string, string[]>> {
+    const partners = new Map<string, string[]>();
+    if (teamUps.length === 0) {
+      return partners;
+    }
+
+    const client = this.supabaseService.getClient();
+    const { data: gameHeroes, error: heroesError } = await client
+      .from('marvel_rivals_heroes')
+      .select('id')
+      .eq('game_id', hero.game_id)
+      .neq('id', hero.id);
+
+    if (heroesError) {
+      this.logger.error(
+        `Error fetching team-up partners for hero ${hero.id}: ${heroesError.message}`,
+      );
+      throw new InternalServerErrorException('Could not fetch abilities');
+    }
+    if (!gameHeroes || gameHeroes.length === 0) {
+      return partners;
+    }
+
+    const { data, error } = await client
+      .from('marvel_rivals_abilities')
+      .select('hero_id, slug')
+      .eq('team_up', true)
+      .is('retired_at', null)
+      .in(
+        'slug',
+        teamUps.map((ability) => ability.slug),
+      )
+      .in(
+        'hero_id',
+        gameHeroes.map((gameHero) => gameHero.id),
+      );
+
+    if (error) {
+      this.logger.error(
+        `Error fetching team-up partners for hero ${hero.id}: ${error.message}`,
+      );
+      throw new InternalServerErrorException('Could not fetch abilities');
+    }
+
+    for (const row of data ?? []) {
+      partners.set(row.slug, [...(partners.get(row.slug) ?? []), row.hero_id]);
+    }
+    return partners;
+  }
+
+  async findHistory(
+    heroId: string,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<StatSnapshotDto>> {
+    await this.findOne(heroId);
+
+    return this.historyService.findHeroHistory(heroId, page, limit);
+  }
+}
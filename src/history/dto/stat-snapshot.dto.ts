@@ -0,0 +1,24 @@
+import { StatChange, StatSnapshot } from '../stat-diff';
+
+export type SnapshotEntityType = 'hero' | 'ability';
+
+export class StatSnapshotDto {
+  id: string;
+  entity_type: SnapshotEntityType;
+  // Hero id, or `${hero_id}:${ability slug}` for abilities
+  entity_key: string;
+  hero_id: string;
+  ability_name: string | null;
+  version: number;
+  stats: StatSnapshot;
+  // Empty for the first version of an entity
+  changes: StatChange[];
+  run_id: string | null;
+  captured_at: string;
+}
+
+export interface ListChangesQuery {
+  since?: Date;
+  page: number;
+  limit: number;
+}
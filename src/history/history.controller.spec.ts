@@ -0,0 +1,38 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { HistoryController } from './history.controller';
+import { HistoryService } from './history.service';
+
+describe('HistoryController', () => {
+  let controller: HistoryController;
+  const historyService = { findChanges: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HistoryController],
+      providers: [{ provide: HistoryService, useValue: historyService }],
+    }).compile();
+
+    controller = module.get<HistoryController>(HistoryController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should parse since into a date', async () => {
+    await controller.findChanges('2025-01-10', 1, 20);
+
+    expect(historyService.findChanges).toHaveBeenCalledWith({
+      since: new Date('2025-01-10'),
+      page: 1,
+      limit: 20,
+    });
+  });
+
+  it('should reject an invalid since', async () => {
+    await expect(
+      controller.findChanges('last tuesday', 1, 20),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
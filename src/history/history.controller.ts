@@ -0,0 +1,33 @@
+import {
+  BadRequestException,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE } from 'src/common/pagination';
+import { HistoryService } from './history.service';
+
+@Controller('changes')
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  @Get()
+  async findChanges(
+    @Query('since') since: string | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    let sinceDate: Date | undefined;
+    if (since) {
+      sinceDate = new Date(since);
+      if (Number.isNaN(sinceDate.getTime())) {
+        throw new BadRequestException('since must be an ISO 8601 date');
+      }
+    }
+
+    return this.historyService.findChanges({ since: sinceDate, page, limit });
+  }
+}
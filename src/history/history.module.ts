@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { HistoryController } from './history.controller';
+import { HistoryService } from './history.service';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [HistoryController],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
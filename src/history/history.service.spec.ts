@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { StatUnit } from 'src/domain/ability.model';
+import { emptyHeroStats } from 'src/domain/hero.model';
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let results: Array<{ data: any; count?: number; error: any }>;
+  const query: Record<string, jest.Mock> = {};
+
+  beforeEach(async () => {
+    results = [];
+    for (const method of [
+      'from',
+      'select',
+      'insert',
+      'eq',
+      'gt',
+      'gte',
+      'order',
+      'limit',
+      'range',
+      'single',
+      'maybeSingle',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve(results.shift() ?? { data: null, error: null }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+      ],
+    }).compile();
+
+    service = module.get<HistoryService>(HistoryService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should write the first version without changes', async () => {
+    results = [
+      { data: null, error: null },
+      { data: { id: 's1' }, error: null },
+    ];
+
+    await service.recordHeroStats(
+      'hero-1',
+      { ...emptyHeroStats(), health: 650, difficulty: 2 },
+      'run-1',
+    );
+
+    expect(query.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entity_type: 'hero',
+        entity_key: 'hero-1',
+        version: 1,
+        changes: [],
+        run_id: 'run-1',
+      }),
+    );
+  });
+
+  it('should not write a version when nothing changed', async () => {
+    results = [
+      {
+        data: {
+          version: 3,
+          stats: { health: { value: 650, unit: null, raw: '650' } },
+        },
+        error: null,
+      },
+    ];
+
+    const snapshot = await service.recordHeroStats(
+      'hero-1',
+      { ...emptyHeroStats(), health: 650, difficulty: null },
+      'run-2',
+    );
+
+    expect(snapshot).toBeNull();
+    expect(query.insert).not.toHaveBeenCalled();
+  });
+
+  it('should write the next version with the diff on a balance change', async () => {
+    results = [
+      {
+        data: {
+          version: 1,
+          stats: { cooldown: { value: 6, unit: 's', raw: '6s' } },
+        },
+        error: null,
+      },
+      { data: { id: 's2' }, error: null },
+    ];
+
+    await service.recordAbilityStats(
+      'hero-1',
+      'gamma-burst',
+      'Gamma Burst',
+      {
+        cooldown: {
+          value: 8,
+          unit: StatUnit.Seconds,
+          values: [],
+          raw: '8s',
+        },
+      },
+      'run-3',
+    );
+
+    expect(query.eq).toHaveBeenCalledWith('entity_key', 'hero-1:gamma-burst');
+    expect(query.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entity_type: 'ability',
+        ability_name: 'Gamma Burst',
+        version: 2,
+        changes: [expect.objectContaining({ stat: 'cooldown', delta: 2 })],
+      }),
+    );
+  });
+
+  it('should only list versions after the first when listing changes', async () => {
+    results = [{ data: [], count: 0, error: null }];
+
+    await service.findChanges({
+      since: new Date('2025-01-10T00:00:00.000Z'),
+      page: 1,
+      limit: 20,
+    });
+
+    expect(query.gt).toHaveBeenCalledWith('version', 1);
+    expect(query.gte).toHaveBeenCalledWith(
+      'captured_at',
+      '2025-01-10T00:00:00.000Z',
+    );
+  });
+});
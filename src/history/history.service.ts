@@ -0,0 +1,189 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, toRange } from 'src/common/pagination';
+import { AbilityStats } from 'src/domain/ability.model';
+import { HeroStats } from 'src/domain/hero.model';
+import {
+  abilityStatsSnapshot,
+  diffStats,
+  heroStatsSnapshot,
+  StatSnapshot,
+} from './stat-diff';
+import {
+  ListChangesQuery,
+  SnapshotEntityType,
+  StatSnapshotDto,
+} from './dto/stat-snapshot.dto';
+
+/**
+ * Keeps versioned snapshots of hero and ability stats in `stat_snapshots`.
+ * A new version is only written when a stat differs from the latest one, so
+ * every version after the first describes a balance change.
+ */
+@Injectable()
+export class HistoryService {
+  private readonly logger = new Logger(HistoryService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async recordHeroStats(
+    heroId: string,
+    stats: HeroStats,
+    runId: string | null,
+  ): Promise<StatSnapshotDto | null> {
+    return this.record(
+      'hero',
+      heroId,
+      heroId,
+      null,
+      heroStatsSnapshot(stats),
+      runId,
+    );
+  }
+
+  async recordAbilityStats(
+    heroId: string,
+    abilitySlug: string,
+    abilityName: string,
+    stats: AbilityStats,
+    runId: string | null,
+  ): Promise<StatSnapshotDto | null> {
+    return this.record(
+      'ability',
+      `${heroId}:${abilitySlug}`,
+      heroId,
+      abilityName,
+      abilityStatsSnapshot(stats),
+      runId,
+    );
+  }
+
+  async findHeroHistory(
+    heroId: string,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<StatSnapshotDto>> {
+    const [from, to] = toRange(page, limit);
+
+    const { data, count, error } = await this.supabaseService
+      .getClient()
+      .from('stat_snapshots')
+      .select('*', { count: 'exact' })
+      .eq('hero_id', heroId)
+      .order('captured_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(
+        `Error fetching history for hero ${heroId}: ${error.message}`,
+      );
+      throw new InternalServerErrorException('Could not fetch hero history');
+    }
+
+    return { data: data ?? [], page, limit, total: count ?? 0 };
+  }
+
+  async findChanges(
+    query: ListChangesQuery,
+  ): Promise<PaginatedResponse<StatSnapshotDto>> {
+    const [from, to] = toRange(query.page, query.limit);
+
+    let request = this.supabaseService
+      .getClient()
+      .from('stat_snapshots')
+      .select('*', { count: 'exact' })
+      .gt('version', 1);
+
+    if (query.since) {
+      request = request.gte('captured_at', query.since.toISOString());
+    }
+
+    const { data, count, error } = await request
+      .order('captured_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching stat changes: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch stat changes');
+    }
+
+    return {
+      data: data ?? [],
+      page: query.page,
+      limit: query.limit,
+      total: count ?? 0,
+    };
+  }
+
+  /**
+   * Writes a new version when `stats` differ from the latest snapshot.
+   * History is best effort: errors are logged and never fail the scrape.
+   * @returns The written snapshot, or null when nothing changed.
+   */
+  private async record(
+    entityType: SnapshotEntityType,
+    entityKey: string,
+    heroId: string,
+    abilityName: string | null,
+    stats: StatSnapshot,
+    runId: string | null,
+  ): Promise<StatSnapshotDto | null> {
+    const client = this.supabaseService.getClient();
+
+    const { data: latest, error: fetchError } = await client
+      .from('stat_snapshots')
+      .select('version, stats')
+      .eq('entity_type', entityType)
+      .eq('entity_key', entityKey)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      this.logger.error(
+        `Error reading latest snapshot for ${entityKey}: ${fetchError.message}`,
+      );
+      return null;
+    }
+
+    const changes = latest ? diffStats(latest.stats, stats) : [];
+    if (latest && changes.length === 0) {
+      return null;
+    }
+
+    const { data, error } = await client
+      .from('stat_snapshots')
+      .insert({
+        entity_type: entityType,
+        entity_key: entityKey,
+        hero_id: heroId,
+        ability_name: abilityName,
+        version: latest ? latest.version + 1 : 1,
+        stats,
+        changes,
+        run_id: runId,
+        captured_at: new Date(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      this.logger.error(
+        `Error writing snapshot for ${entityKey}: ${error.message}`,
+      );
+      return null;
+    }
+
+    if (changes.length > 0) {
+      this.logger.log(
+        `Recorded ${changes.length} stat change(s) for ${entityType} ${entityKey}.`,
+      );
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,66 @@
+import { StatUnit } from 'src/domain/ability.model';
+import { emptyHeroStats } from 'src/domain/hero.model';
+import {
+  abilityStatsSnapshot,
+  diffStats,
+  heroStatsSnapshot,
+} from './stat-diff';
+
+describe('stat-diff', () => {
+  it('should report no changes for identical snapshots', () => {
+    const stats = heroStatsSnapshot({
+      ...emptyHeroStats(),
+      health: 650,
+      difficulty: 2,
+    });
+
+    expect(diffStats(stats, { ...stats })).toEqual([]);
+  });
+
+  it('should report changed hero stats with a delta', () => {
+    expect(
+      diffStats(
+        heroStatsSnapshot({ ...emptyHeroStats(), health: 650, difficulty: 2 }),
+        heroStatsSnapshot({ ...emptyHeroStats(), health: 700, difficulty: 2 }),
+      ),
+    ).toEqual([
+      {
+        stat: 'health',
+        change: 'changed',
+        before: { value: 650, unit: null, raw: '650' },
+        after: { value: 700, unit: null, raw: '700' },
+        delta: 50,
+      },
+    ]);
+  });
+
+  it('should report added and removed ability stats', () => {
+    const cooldown = {
+      value: 6,
+      unit: StatUnit.Seconds,
+      values: [],
+      raw: '6s',
+    };
+    const range = { value: 15, unit: StatUnit.Meters, values: [], raw: '15m' };
+
+    expect(
+      diffStats(
+        abilityStatsSnapshot({ cooldown }),
+        abilityStatsSnapshot({ range }),
+      ).map(({ stat, change, delta }) => ({ stat, change, delta })),
+    ).toEqual([
+      { stat: 'cooldown', change: 'removed', delta: null },
+      { stat: 'range', change: 'added', delta: null },
+    ]);
+  });
+
+  it('should not compute a delta across units', () => {
+    const [change] = diffStats(
+      { damage: { value: 30, unit: '/s', raw: '30/s' } },
+      { damage: { value: 30, unit: null, raw: '30' } },
+    );
+
+    expect(change.change).toBe('changed');
+    expect(change.delta).toBeNull();
+  });
+});
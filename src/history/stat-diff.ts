@@ -0,0 +1,89 @@
+import { AbilityStats } from 'src/domain/ability.model';
+import { HeroStats } from 'src/domain/hero.model';
+
+/**
+ * A single stat as stored in a snapshot. Hero and ability stats are both
+ * reduced to this shape so they can be diffed the same way.
+ */
+export interface StatSnapshotValue {
+  value: number | null;
+  unit: string | null;
+  raw: string;
+}
+
+export type StatSnapshot = Record<string, StatSnapshotValue>;
+
+export type StatChangeKind = 'added' | 'removed' | 'changed';
+
+export interface StatChange {
+  stat: string;
+  change: StatChangeKind;
+  before: StatSnapshotValue | null;
+  after: StatSnapshotValue | null;
+  // after - before, when both sides are numbers in the same unit
+  delta: number | null;
+}
+
+export function heroStatsSnapshot(stats: HeroStats): StatSnapshot {
+  const snapshot: StatSnapshot = {};
+  for (const [stat, value] of Object.entries(stats)) {
+    if (typeof value === 'number') {
+      snapshot[stat] = { value, unit: null, raw: String(value) };
+    }
+  }
+  return snapshot;
+}
+
+export function abilityStatsSnapshot(stats: AbilityStats): StatSnapshot {
+  const snapshot: StatSnapshot = {};
+  for (const [stat, { value, unit, raw }] of Object.entries(stats)) {
+    snapshot[stat] = { value, unit, raw };
+  }
+  return snapshot;
+}
+
+/**
+ * Lists the stats that differ between two snapshots, sorted by stat name.
+ * Stats are compared on their raw text so that changes the parser could not
+ * turn into numbers are still reported.
+ */
+export function diffStats(
+  before: StatSnapshot,
+  after: StatSnapshot,
+): StatChange[] {
+  const stats = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: StatChange[] = [];
+
+  for (const stat of [...stats].sort()) {
+    const previous = before[stat] ?? null;
+    const current = after[stat] ?? null;
+
+    if (previous && current && sameText(previous.raw, current.raw)) {
+      continue;
+    }
+
+    changes.push({
+      stat,
+      change: !previous ? 'added' : !current ? 'removed' : 'changed',
+      before: previous,
+      after: current,
+      delta:
+        previous?.value != null &&
+        current?.value != null &&
+        previous.unit === current.unit
+          ? round(current.value - previous.value)
+          : null,
+    });
+  }
+
+  return changes;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+// Avoids 0.30000000000000004 style deltas
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,126 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { ImageMirrorService } from './image-mirror.service';
+import { IMAGE_STORAGE } from './image-storage';
+
+describe('ImageMirrorService', () => {
+  let service: ImageMirrorService;
+  let config: Record<string, string>;
+  let image: Buffer;
+  let hash: string;
+  const url = 'https://static.wikia.nocookie.net/storm.png';
+  const fetcherService = { getBuffer: jest.fn() };
+  const storage = {
+    put: jest.fn<Promise<string>, [string, Buffer, string]>(
+      async (key) => `https://cdn.example.com/${key}`,
+    ),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageMirrorService,
+        { provide: FetcherService, useValue: fetcherService },
+        { provide: IMAGE_STORAGE, useValue: storage },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<ImageMirrorService>(ImageMirrorService);
+  };
+
+  beforeAll(async () => {
+    image = await sharp({
+      create: { width: 300, height: 150, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    hash = createHash('sha256').update(image).digest('hex');
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    config = { IMAGE_THUMBNAIL_WIDTHS: '96,512' };
+    fetcherService.getBuffer.mockResolvedValue({
+      url,
+      status: 200,
+      headers: { 'content-type': 'image/png; charset=binary' },
+      data: image,
+    });
+    service = await createService();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store the image and its thumbnails by content hash', async () => {
+    await expect(service.mirror(url)).resolves.toEqual({
+      image_url: `https://cdn.example.com/${hash}.png`,
+      original_image_url: url,
+      thumbnails: {
+        96: `https://cdn.example.com/${hash}-96.webp`,
+        // The original is narrower than 512px and is not scaled up
+        512: `https://cdn.example.com/${hash}-300.webp`,
+      },
+    });
+    expect(storage.put).toHaveBeenCalledWith(`${hash}.png`, image, 'image/png');
+
+    const [, thumbnail, contentType] = storage.put.mock.calls[1];
+    expect(contentType).toBe('image/webp');
+    await expect(sharp(thumbnail).metadata()).resolves.toEqual(
+      expect.objectContaining({ format: 'webp', width: 96, height: 48 }),
+    );
+  });
+
+  it('should not download an image mirrored before', async () => {
+    const previous = {
+      image_url: `https://cdn.example.com/${hash}.png`,
+      original_image_url: url,
+      thumbnails: {},
+    };
+
+    await expect(service.mirror(url, previous)).resolves.toBe(previous);
+    expect(fetcherService.getBuffer).not.toHaveBeenCalled();
+  });
+
+  it('should reject SVGs, other content and undecodable images', async () => {
+    for (const contentType of ['image/svg+xml', 'text/html']) {
+      fetcherService.getBuffer.mockResolvedValueOnce({
+        url,
+        status: 200,
+        headers: { 'content-type': contentType },
+        data: Buffer.from('<svg onload="alert(1)"></svg>'),
+      });
+      await expect(service.mirror(url)).rejects.toThrow(
+        /not a supported image/,
+      );
+    }
+
+    fetcherService.getBuffer.mockResolvedValueOnce({
+      url,
+      status: 200,
+      headers: { 'content-type': 'image/png' },
+      data: Buffer.from('<svg onload="alert(1)"></svg>'),
+    });
+    await expect(service.mirror(url)).rejects.toThrow();
+
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when mirroring is disabled', async () => {
+    config.IMAGE_MIRRORING = 'false';
+    service = await createService();
+
+    await expect(service.mirror(url)).resolves.toBeNull();
+    expect(fetcherService.getBuffer).not.toHaveBeenCalled();
+  });
+});
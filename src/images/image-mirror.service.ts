@@ -0,0 +1,140 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { IMAGE_STORAGE, ImageStorage } from './image-storage';
+
+/**
+ * The image columns of a row once its image is mirrored. `thumbnails` maps a
+ * width in pixels to the URL of a WebP copy at most that wide.
+ */
+export interface MirroredImage {
+  image_url: string;
+  original_image_url: string;
+  thumbnails: Record<string, string>;
+}
+
+// The only formats mirrored, with their file extensions. Anything else, SVG
+// in particular, could carry script that would run from our origin.
+const RESIZABLE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+/**
+ * Copies scraped images into our own storage so the API does not hotlink
+ * third-party CDNs. Images are stored under the SHA-256 of their bytes,
+ * together with WebP thumbnails at IMAGE_THUMBNAIL_WIDTHS (comma-separated).
+ * Set IMAGE_MIRRORING=false to keep hotlinking.
+ */
+@Injectable()
+export class ImageMirrorService {
+  private readonly logger = new Logger(ImageMirrorService.name);
+
+  private readonly enabled: boolean;
+  private readonly thumbnailWidths: number[];
+  private readonly maxBytes: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly fetcherService: FetcherService,
+    @Inject(IMAGE_STORAGE) private readonly storage: ImageStorage,
+  ) {
+    this.enabled =
+      String(this.configService.get('IMAGE_MIRRORING', 'true')) !== 'false';
+    this.thumbnailWidths = this.configService
+      .get<string>('IMAGE_THUMBNAIL_WIDTHS', '96,256,512')
+      .split(',')
+      .map(Number)
+      .filter((width) => Number.isInteger(width) && width > 0);
+    this.maxBytes = Number(
+      this.configService.get('IMAGE_MAX_BYTES', 10 * 1024 * 1024),
+    );
+  }
+
+  /**
+   * Mirrors the image at `url`. An image already mirrored into `previous`
+   * is not downloaded again.
+   * @returns null when mirroring is disabled.
+   */
+  async mirror(
+    url: string,
+    previous?: Partial<MirroredImage> | null,
+  ): Promise<MirroredImage | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    if (
+      previous?.original_image_url === url &&
+      previous.image_url &&
+      previous.thumbnails
+    ) {
+      return previous as MirroredImage;
+    }
+
+    const { data, headers } = await this.fetcherService.getBuffer(url);
+    const contentType = String(headers['content-type'] ?? '')
+      .split(';')[0]
+      .trim()
+      .toLowerCase();
+    const extension = RESIZABLE_TYPES[contentType];
+    if (!extension) {
+      throw new Error(
+        `${url} is not a supported image (${contentType || 'no type'})`,
+      );
+    }
+    if (data.length > this.maxBytes) {
+      throw new Error(`${url} is larger than ${this.maxBytes} bytes`);
+    }
+
+    // Resized before anything is stored, so bytes that do not decode as an
+    // image never reach storage
+    const resized = await this.resize(data);
+
+    const hash = createHash('sha256').update(data).digest('hex');
+    const imageUrl = await this.storage.put(
+      `${hash}.${extension}`,
+      data,
+      contentType,
+    );
+
+    const thumbnails: Record<string, string> = {};
+    for (const [index, { width, data: thumbnail }] of resized.entries()) {
+      thumbnails[this.thumbnailWidths[index]] = await this.storage.put(
+        `${hash}-${width}.webp`,
+        thumbnail,
+        'image/webp',
+      );
+    }
+
+    this.logger.log(`Mirrored ${url} as ${imageUrl}.`);
+    return { image_url: imageUrl, original_image_url: url, thumbnails };
+  }
+
+  /**
+   * Scales an image down to each thumbnail width, keeping its aspect ratio,
+   * and encodes the results as WebP. Images are never scaled up, so a result
+   * can be narrower than asked for.
+   */
+  private async resize(
+    image: Buffer,
+  ): Promise<Array<{ width: number; data: Buffer }>> {
+    // Throws for data that is not an image sharp can read
+    await sharp(image).metadata();
+
+    const resized: Array<{ width: number; data: Buffer }> = [];
+    for (const width of this.thumbnailWidths) {
+      const { data, info } = await sharp(image)
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+      resized.push({ width: info.width, data });
+    }
+    return resized;
+  }
+}
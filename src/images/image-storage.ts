@@ -0,0 +1,15 @@
+export const IMAGE_STORAGE = 'IMAGE_STORAGE';
+
+export type ImageStorageBackend = 'local' | 'supabase';
+
+/**
+ * Where mirrored images are kept. Keys are content hashes, so writing the
+ * same key twice always writes the same bytes.
+ */
+export interface ImageStorage {
+  /**
+   * Stores the image under `key` unless it is already there.
+   * @returns The public URL of the stored image.
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+}
@@ -0,0 +1,60 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolve as resolvePath } from 'path';
+import { FetcherModule } from 'src/fetcher/fetcher.module';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { ImageMirrorService } from './image-mirror.service';
+import { IMAGE_STORAGE, ImageStorageBackend } from './image-storage';
+import { LocalImageStorage } from './local-image-storage';
+import { SupabaseImageStorage } from './supabase-image-storage';
+
+/**
+ * IMAGE_STORAGE selects the backend: `local` (default) writes to
+ * IMAGE_STORAGE_DIR, served at IMAGE_PUBLIC_BASE_URL; `supabase` uploads to
+ * the public bucket IMAGE_STORAGE_BUCKET.
+ */
+@Module({
+  imports: [FetcherModule, SupabaseModule],
+  providers: [
+    ImageMirrorService,
+    {
+      provide: IMAGE_STORAGE,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (
+        configService: ConfigService,
+        supabaseService: SupabaseService,
+      ) => {
+        const backend = configService.get<ImageStorageBackend>(
+          'IMAGE_STORAGE',
+          'local',
+        );
+        switch (backend) {
+          case 'local':
+            return new LocalImageStorage(
+              resolvePath(
+                configService.get<string>('IMAGE_STORAGE_DIR', 'images'),
+              ),
+              configService
+                .get<string>(
+                  'IMAGE_PUBLIC_BASE_URL',
+                  `http://localhost:${configService.get('PORT', 3000)}/images`,
+                )
+                .replace(/\/+$/, ''),
+            );
+          case 'supabase':
+            return new SupabaseImageStorage(
+              supabaseService.getClient(),
+              configService.get<string>('IMAGE_STORAGE_BUCKET', 'images'),
+            );
+          default:
+            throw new Error(
+              `IMAGE_STORAGE must be local or supabase, got ${backend}`,
+            );
+        }
+      },
+    },
+  ],
+  exports: [ImageMirrorService],
+})
+export class ImagesModule {}
@@ -0,0 +1,34 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ImageStorage } from './image-storage';
+import { LocalImageStorage } from './local-image-storage';
+
+describe('LocalImageStorage', () => {
+  let dir: string;
+  let storage: ImageStorage;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'images-'));
+    storage = new LocalImageStorage(
+      join(dir, 'images'),
+      'https://api.example.com/images',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write new images and leave stored ones alone', async () => {
+    await expect(
+      storage.put('abc.png', Buffer.from('first'), 'image/png'),
+    ).resolves.toBe('https://api.example.com/images/abc.png');
+    expect(readFileSync(join(dir, 'images', 'abc.png'), 'utf8')).toBe('first');
+
+    writeFileSync(join(dir, 'images', 'abc.png'), 'stored');
+    await storage.put('abc.png', Buffer.from('second'), 'image/png');
+
+    expect(readFileSync(join(dir, 'images', 'abc.png'), 'utf8')).toBe('stored');
+  });
+});
@@ -0,0 +1,25 @@
+import { access, mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ImageStorage } from './image-storage';
+
+/**
+ * Keeps images in a directory that main.ts serves under /images/.
+ */
+export class LocalImageStorage implements ImageStorage {
+  constructor(
+    private readonly dir: string,
+    // Absolute URL the directory is served under, without a trailing slash
+    private readonly publicBaseUrl: string,
+  ) {}
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const path = join(this.dir, key);
+    try {
+      await access(path);
+    } catch {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(path, data);
+    }
+    return `${this.publicBaseUrl}/${key}`;
+  }
+}
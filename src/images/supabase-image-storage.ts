@@ -0,0 +1,28 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ImageStorage } from './image-storage';
+
+/**
+ * Keeps images in a public Supabase storage bucket.
+ */
+export class SupabaseImageStorage implements ImageStorage {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bucket: string,
+  ) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    const storage = this.client.storage.from(this.bucket);
+    const { error } = await storage.upload(key, data, {
+      contentType,
+      // Content-hashed keys never change, so they can be cached for good
+      cacheControl: '31536000',
+      upsert: true,
+    });
+
+    if (error) {
+      throw new Error(`Error uploading image ${key}: ${error.message}`);
+    }
+
+    return storage.getPublicUrl(key).data.publicUrl;
+  }
+}
@@ -1,12 +1,32 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { resolve as resolvePath } from 'path';
 import { AppModule } from './app.module';
+import { corsOptions } from './auth/cors';
 import { winstonLoggerConfig } from './logger/winston-logger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: winstonLoggerConfig,
   });
+  // Cross-origin access to the protected routes is limited to the
+  // comma-separated CORS_ORIGINS
+  const corsOrigins = (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  app.enableCors(corsOptions(corsOrigins));
+  // Mirrored images in local storage; see ImagesModule
+  if ((process.env.IMAGE_STORAGE ?? 'local') === 'local') {
+    app.useStaticAssets(
+      resolvePath(process.env.IMAGE_STORAGE_DIR ?? 'images'),
+      {
+        prefix: '/images/',
+        immutable: true,
+        maxAge: '365d',
+      },
+    );
+  }
   await app.listen(process.env.PORT ?? 3000);
-  app.enableCors();
 }
 bootstrap();
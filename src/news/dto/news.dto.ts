@@ -0,0 +1,37 @@
+import { SortOrder } from 'src/common/pagination';
+import { NewsType } from 'src/domain/news.model';
+
+export enum NewsSortField {
+  PublishedAt = 'published_at',
+  CreatedAt = 'created_at',
+  Title = 'title',
+}
+
+export class NewsDto {
+  id: string;
+  title: string;
+  content: string | null;
+  body_html: string | null;
+  body_markdown: string | null;
+  author: string | null;
+  images: string[];
+  type: NewsType;
+  url: string;
+  image_url: string | null;
+  original_image_url: string | null;
+  thumbnails: Record<string, string> | null;
+  game_id: string;
+  published_at: string;
+  created_at: string;
+  updated_at: string;
+  content_hash: string;
+  parser_version: string | null;
+}
+
+export interface ListNewsQuery {
+  type?: NewsType;
+  page: number;
+  limit: number;
+  sort: NewsSortField;
+  order: SortOrder;
+}
@@ -0,0 +1,45 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SortOrder } from 'src/common/pagination';
+import { NewsType } from 'src/domain/news.model';
+import { NewsController } from './news.controller';
+import { NewsService } from './news.service';
+import { NewsSortField } from './dto/news.dto';
+
+describe('NewsController', () => {
+  let controller: NewsController;
+  const newsService = {
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [NewsController],
+      providers: [{ provide: NewsService, useValue: newsService }],
+    }).compile();
+
+    controller = module.get<NewsController>(NewsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should forward list filters to the service', async () => {
+    await controller.findAll(
+      NewsType.Update,
+      2,
+      10,
+      NewsSortField.PublishedAt,
+      SortOrder.Desc,
+    );
+
+    expect(newsService.findAll).toHaveBeenCalledWith({
+      type: NewsType.Update,
+      page: 2,
+      limit: 10,
+      sort: NewsSortField.PublishedAt,
+      order: SortOrder.Desc,
+    });
+  });
+});
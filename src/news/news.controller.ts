@@ -0,0 +1,46 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE, SortOrder } from 'src/common/pagination';
+import { NewsType } from 'src/domain/news.model';
+import { NewsService } from './news.service';
+import { NewsSortField } from './dto/news.dto';
+
+@Controller('news')
+export class NewsController {
+  constructor(private readonly newsService: NewsService) {}
+
+  @Get()
+  async findAll(
+    @Query('type', new ParseEnumPipe(NewsType, { optional: true }))
+    type: NewsType | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+    @Query(
+      'sort',
+      new DefaultValuePipe(NewsSortField.PublishedAt),
+      new ParseEnumPipe(NewsSortField),
+    )
+    sort: NewsSortField,
+    @Query(
+      'order',
+      new DefaultValuePipe(SortOrder.Desc),
+      new ParseEnumPipe(SortOrder),
+    )
+    order: SortOrder,
+  ) {
+    return this.newsService.findAll({ type, page, limit, sort, order });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.newsService.findOne(id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { NewsController } from './news.controller';
+import { NewsService } from './news.service';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [NewsController],
+  providers: [NewsService],
+})
+export class NewsModule {}
@@ -0,0 +1,65 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { SortOrder } from 'src/common/pagination';
+import { NewsType } from 'src/domain/news.model';
+import { NewsService } from './news.service';
+import { NewsSortField } from './dto/news.dto';
+
+describe('NewsService', () => {
+  let service: NewsService;
+  let result: { data: any; count?: number; error: any };
+  const query: Record<string, jest.Mock> = {};
+
+  beforeEach(async () => {
+    result = { data: [], count: 0, error: null };
+    for (const method of [
+      'from',
+      'select',
+      'eq',
+      'order',
+      'range',
+      'maybeSingle',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) => resolve(result));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NewsService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+      ],
+    }).compile();
+
+    service = module.get<NewsService>(NewsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should filter news by type, newest first', async () => {
+    await service.findAll({
+      type: NewsType.DevDiary,
+      page: 1,
+      limit: 20,
+      sort: NewsSortField.PublishedAt,
+      order: SortOrder.Desc,
+    });
+
+    expect(query.eq).toHaveBeenCalledWith('type', NewsType.DevDiary);
+    expect(query.order).toHaveBeenCalledWith('published_at', {
+      ascending: false,
+    });
+    expect(query.range).toHaveBeenCalledWith(0, 19);
+  });
+
+  it('should throw NotFoundException for an unknown news item', async () => {
+    result = { data: null, error: null };
+
+    await expect(service.findOne('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
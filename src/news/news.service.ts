@@ -0,0 +1,65 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, SortOrder, toRange } from 'src/common/pagination';
+import { ListNewsQuery, NewsDto } from './dto/news.dto';
+
+@Injectable()
+export class NewsService {
+  private readonly logger = new Logger(NewsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async findAll(query: ListNewsQuery): Promise<PaginatedResponse<NewsDto>> {
+    const [from, to] = toRange(query.page, query.limit);
+
+    let request = this.supabaseService
+      .getClient()
+      .from('news')
+      .select('*', { count: 'exact' });
+
+    if (query.type) {
+      request = request.eq('type', query.type);
+    }
+
+    const { data, count, error } = await request
+      .order(query.sort, { ascending: query.order === SortOrder.Asc })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching news: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch news');
+    }
+
+    return {
+      data: data ?? [],
+      page: query.page,
+      limit: query.limit,
+      total: count ?? 0,
+    };
+  }
+
+  async findOne(id: string): Promise<NewsDto> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('news')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Error fetching news item ${id}: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch news item');
+    }
+
+    if (!data) {
+      throw new NotFoundException(`News item ${id} not found`);
+    }
+
+    return data;
+  }
+}
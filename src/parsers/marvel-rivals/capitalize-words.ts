@@ -0,0 +1,8 @@
+// "EYE OF THE STORM" -> "Eye Of The Storm"
+export function capitalizeWords(text: string): string {
+  return text
+    .toLowerCase()
+    .split(' ')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
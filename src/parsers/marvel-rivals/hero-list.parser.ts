@@ -0,0 +1,14 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ScrapingUtils } from 'src/utils/scraping.utils';
+import { ParserPlugin } from '../parser-plugin';
+
+// The fandom Heroes page, one div#mr-main per role
+export const heroListParser: ParserPlugin<'hero-list'> = {
+  name: 'hero-list',
+  version: 1,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'hero-list',
+  priority: 0,
+  matches: ({ $ }) => $('div#mr-main').length > 0,
+  extract: ({ html }, logger) => ScrapingUtils.extractHeroList(logger, html),
+};
@@ -0,0 +1,75 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { loadParserPage } from '../parser-plugin';
+import { heroLoreParser } from './hero-lore.parser';
+
+const page = (html: string) =>
+  loadParserPage('https://marvelrivals.fandom.com/wiki/Storm', html);
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '../../utils/__fixtures__', name), 'utf8');
+
+describe('heroLoreParser', () => {
+  const logger = new Logger('test');
+
+  it('should read the quotes and biography', () => {
+    const lore = heroLoreParser.extract(
+      page(fixture('hero-skill-table.html')),
+      logger,
+    );
+
+    expect(lore).toEqual({
+      quotes: [
+        { text: 'The storm is coming!', source: null },
+        { text: "Feel the wind's fury!", source: 'Voice line' },
+      ],
+      biography: [
+        {
+          text: 'Ororo Munroe is a mutant who descends from an ancient line of African priestesses.',
+          links: [],
+        },
+        {
+          text: 'As a member of the X-Men, Storm wields her command of the weather to protect a world that fears and hates mutants.',
+          links: [
+            {
+              text: 'X-Men',
+              url: 'https://marvelrivals.fandom.com/wiki/X-Men',
+              start: 19,
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should leave the biography empty without a biography blockquote', () => {
+    const lore = heroLoreParser.extract(
+      page('<blockquote><p>"I am Groot."</p><p>— Voice line</p></blockquote>'),
+      logger,
+    );
+
+    expect(lore.biography).toEqual([]);
+    expect(lore.quotes).toEqual([
+      { text: 'I am Groot.', source: 'Voice line' },
+    ]);
+  });
+
+  it('should drop non-http links', () => {
+    const lore = heroLoreParser.extract(
+      page(
+        '<blockquote><p>Grew up on <a href="javascript:void(0)">Planet X</a>  and <a href="https://example.com/Groot">fought</a>.</p><p>— Biography</p></blockquote>',
+      ),
+      logger,
+    );
+
+    expect(lore.biography).toEqual([
+      {
+        text: 'Grew up on Planet X and fought.',
+        links: [
+          { text: 'fought', url: 'https://example.com/Groot', start: 24 },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { CheerioAPI } from 'cheerio';
+import { AnyNode } from 'domhandler';
+import { ParserSet } from 'src/domain/game.model';
+import { HeroQuote, LoreParagraph } from 'src/domain/hero.model';
+import { ParserPlugin } from '../parser-plugin';
+
+const INFOBOX = 'aside.portable-infobox';
+
+const BIOGRAPHY_ATTRIBUTION = 'Biography';
+
+/**
+ * The hero profile text: the "— Biography" blockquote and the quotes around
+ * it. Quotes are the other attributed blockquotes plus pull-quotes. The
+ * infobox facts are read through the game's infobox_fields; see
+ * splitHeroProfile().
+ */
+export const heroLoreParser: ParserPlugin<'hero-lore'> = {
+  name: 'hero-lore',
+  version: 2,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'hero-lore',
+  priority: 0,
+
+  matches: ({ $ }) => $(INFOBOX).length > 0 || $('blockquote').length > 0,
+
+  extract: ({ $, url }, logger) => {
+    const quotes: HeroQuote[] = [];
+    let biography: LoreParagraph[] = [];
+    $('blockquote').each((_, blockquote) => {
+      const paragraphs = $(blockquote).find('p').toArray();
+      const attribution = normalizeWhitespace(
+        $(paragraphs[paragraphs.length - 1]).text(),
+      ).match(/^[—–-]\s*(.+)$/)?.[1];
+      const content = attribution ? paragraphs.slice(0, -1) : paragraphs;
+
+      if (attribution === BIOGRAPHY_ATTRIBUTION) {
+        if (biography.length === 0) {
+          biography = content
+            .map((p) => toParagraph($, p, url))
+            .filter((paragraph) => paragraph.text);
+        }
+        return;
+      }
+
+      // Unattributed blockquotes without a quote style are not quotes
+      if (!attribution && !$(blockquote).is('.pull-quote')) {
+        return;
+      }
+      const quote = stripQuotationMarks(
+        content.map((p) => normalizeWhitespace($(p).text())).join(' '),
+      );
+      if (quote) {
+        quotes.push({ text: quote, source: attribution ?? null });
+      }
+    });
+
+    if (biography.length === 0) {
+      logger.warn(`No "— ${BIOGRAPHY_ATTRIBUTION}" blockquote on ${url}.`);
+    }
+
+    return { quotes, biography };
+  },
+};
+
+/**
+ * Flattens a paragraph to text and records where each http(s) link sits in
+ * it, so clients can re-link the text.
+ */
+function toParagraph($: CheerioAPI, p: AnyNode, baseUrl: string) {
+  const paragraph: LoreParagraph = { text: '', links: [] };
+  // Collapses whitespace across node boundaries and drops it at the start
+  const append = (chunk: string) => {
+    let text = chunk.replace(/\s+/g, ' ');
+    if (text.startsWith(' ') && /(^|\s)$/.test(paragraph.text)) {
+      text = text.slice(1);
+    }
+    paragraph.text += text;
+  };
+
+  const walk = (node: AnyNode) => {
+    if (node.type === 'text') {
+      append(node.data);
+      return;
+    }
+    if (node.type !== 'tag') {
+      return;
+    }
+    if (node.tagName === 'br') {
+      append(' ');
+      return;
+    }
+
+    const start = paragraph.text.length;
+    node.children.forEach(walk);
+
+    const href = node.tagName === 'a' ? $(node).attr('href') : undefined;
+    const link = href ? resolveUrl(href, baseUrl) : null;
+    const linkText = paragraph.text.slice(start);
+    if (link && linkText.trim()) {
+      const leading = linkText.length - linkText.trimStart().length;
+      paragraph.links.push({
+        text: linkText.trim(),
+        url: link,
+        start: start + leading,
+      });
+    }
+  };
+  $(p).contents().toArray().forEach(walk);
+
+  paragraph.text = paragraph.text.trimEnd();
+  return paragraph;
+}
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function stripQuotationMarks(text: string): string {
+  return text.replace(/^["“”]+|["“”]+$/g, '').trim();
+}
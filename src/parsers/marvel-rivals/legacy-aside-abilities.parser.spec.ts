@@ -0,0 +1,38 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { loadParserPage } from '../parser-plugin';
+import { legacyAsideAbilitiesParser } from './legacy-aside-abilities.parser';
+
+const page = (name: string) =>
+  loadParserPage(
+    'https://marvelrivals.fandom.com/wiki/Hulk',
+    readFileSync(join(__dirname, '../../utils/__fixtures__', name), 'utf8'),
+  );
+
+describe('legacyAsideAbilitiesParser', () => {
+  const logger = new Logger('test');
+
+  it('should only match pages with ability infoboxes', () => {
+    expect(
+      legacyAsideAbilitiesParser.matches(page('hero-legacy-aside.html')),
+    ).toBe(true);
+    expect(legacyAsideAbilitiesParser.matches(page('heroes-list.html'))).toBe(
+      false,
+    );
+  });
+
+  it('should parse the legacy fandom-table aside format', () => {
+    const abilities = legacyAsideAbilitiesParser.extract(
+      page('hero-legacy-aside.html'),
+      logger,
+    );
+
+    expect(abilities.map((ability) => [ability.type, ability.name])).toEqual([
+      ['Left Mouse Button', 'Heavy Blow'],
+      ['Left Shift', 'Incredible Leap'],
+      ['Right Mouse Button', 'Gamma Burst'],
+    ]);
+    expect(abilities).toMatchSnapshot();
+  });
+});
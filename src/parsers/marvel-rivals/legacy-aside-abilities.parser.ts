@@ -0,0 +1,77 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ParsedAbility } from 'src/utils/scraping.utils';
+import { ParserPlugin } from '../parser-plugin';
+import { capitalizeWords } from './capitalize-words';
+
+const ABILITY_ASIDES = '.fandom-table tbody tr td aside';
+
+const ABILITY_TYPES: Record<string, string> = {
+  'Primary 1': 'Left Mouse Button',
+  'Primary 2': 'Right Mouse Button',
+  Primary: 'Left Mouse Button',
+  Q: 'Q',
+  E: 'E',
+  F: 'F',
+  Passive: 'Passive',
+  'Left Shift': 'Left Shift',
+};
+
+/**
+ * The older wiki layout: one portable infobox (`aside`) per ability inside a
+ * `.fandom-table`.
+ */
+export const legacyAsideAbilitiesParser: ParserPlugin<'hero-abilities'> = {
+  name: 'abilities-legacy-aside',
+  version: 1,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'hero-abilities',
+  priority: 0,
+
+  matches: ({ $ }) => $(ABILITY_ASIDES).length > 0,
+
+  extract: ({ $ }) => {
+    const abilities: ParsedAbility[] = [];
+
+    $(ABILITY_ASIDES).each((_, aside) => {
+      const rawType = $(aside).find('td[data-source="keybind"]').text().trim();
+      const ability: ParsedAbility = {
+        name: capitalizeWords($(aside).find('.pi-title').text().trim()),
+        type: ABILITY_TYPES[rawType] || rawType,
+        description: $(aside)
+          .find('.pi-data[data-source="description"] .pi-data-value')
+          .text()
+          .trim(),
+        stats: {},
+      };
+
+      // Extract all stats from horizontal groups
+      $(aside)
+        .find('.pi-horizontal-group')
+        .each((_, group) => {
+          const labels = $(group).find('.pi-data-label');
+          const values = $(group).find('.pi-data-value');
+
+          labels.each((i, label) => {
+            const key = $(label).text().trim().toLowerCase().replace(/ /g, '_');
+            const value = $(values.get(i)).text().trim();
+            if (key && value) {
+              ability.stats[key] = value;
+            }
+          });
+        });
+
+      // Extract properties if they exist
+      const properties = $(aside)
+        .find('.pi-data[data-source="properties"] .pi-data-value')
+        .text()
+        .trim();
+      if (properties) {
+        ability.stats['properties'] = properties;
+      }
+
+      abilities.push(ability);
+    });
+
+    return abilities;
+  },
+};
@@ -0,0 +1,16 @@
+import { ParserPlugin } from '../parser-plugin';
+import { heroListParser } from './hero-list.parser';
+import { heroLoreParser } from './hero-lore.parser';
+import { legacyAsideAbilitiesParser } from './legacy-aside-abilities.parser';
+import { newsArticleParser } from './news-article.parser';
+import { newsListParser } from './news-list.parser';
+import { skillTableAbilitiesParser } from './skill-table-abilities.parser';
+
+export const MARVEL_RIVALS_PARSERS: ParserPlugin[] = [
+  heroListParser,
+  skillTableAbilitiesParser,
+  legacyAsideAbilitiesParser,
+  heroLoreParser,
+  newsListParser,
+  newsArticleParser,
+];
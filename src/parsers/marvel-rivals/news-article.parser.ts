@@ -0,0 +1,15 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ScrapingUtils } from 'src/utils/scraping.utils';
+import { ParserPlugin } from '../parser-plugin';
+
+// marvelrivals.com article pages; the body selectors cover every template
+export const newsArticleParser: ParserPlugin<'news-article'> = {
+  name: 'news-article',
+  version: 1,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'news-article',
+  priority: 0,
+  matches: () => true,
+  extract: ({ html, url }, logger) =>
+    ScrapingUtils.extractNewsArticle(logger, html, url),
+};
@@ -0,0 +1,15 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ScrapingUtils } from 'src/utils/scraping.utils';
+import { ParserPlugin } from '../parser-plugin';
+
+// marvelrivals.com listings of news cards (a.list-item)
+export const newsListParser: ParserPlugin<'news-list'> = {
+  name: 'news-list',
+  version: 1,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'news-list',
+  priority: 0,
+  matches: ({ $ }) => $('a.list-item').length > 0,
+  extract: ({ html, url }, logger) =>
+    ScrapingUtils.extractNewsList(logger, html, url),
+};
@@ -0,0 +1,39 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { loadParserPage } from '../parser-plugin';
+import { skillTableAbilitiesParser } from './skill-table-abilities.parser';
+
+const page = (name: string) =>
+  loadParserPage(
+    'https://marvelrivals.fandom.com/wiki/Storm',
+    readFileSync(join(__dirname, '../../utils/__fixtures__', name), 'utf8'),
+  );
+
+describe('skillTableAbilitiesParser', () => {
+  const logger = new Logger('test');
+
+  it('should only match pages with a skill table', () => {
+    expect(
+      skillTableAbilitiesParser.matches(page('hero-skill-table.html')),
+    ).toBe(true);
+    expect(
+      skillTableAbilitiesParser.matches(page('hero-legacy-aside.html')),
+    ).toBe(false);
+  });
+
+  it('should parse the skill-table format', () => {
+    const abilities = skillTableAbilitiesParser.extract(
+      page('hero-skill-table.html'),
+      logger,
+    );
+
+    expect(abilities.map((ability) => [ability.type, ability.name])).toEqual([
+      ['Left Mouse Button', 'Wind Blade'],
+      ['Right Mouse Button', 'Weather Control'],
+      ['Q', 'Omega Hurricane'],
+      ['PASSIVE', 'Eye Of The Storm'],
+    ]);
+    expect(abilities).toMatchSnapshot();
+  });
+});
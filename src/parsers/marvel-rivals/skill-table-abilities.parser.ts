@@ -0,0 +1,113 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ParsedAbility } from 'src/utils/scraping.utils';
+import { ParserPlugin } from '../parser-plugin';
+import { capitalizeWords } from './capitalize-words';
+
+const SKILL_TABLE = 'table.wikitable.skill-table';
+
+/**
+ * The current wiki layout: one `table.wikitable.skill-table` whose rows
+ * alternate between a keybind/icon/name row and a description/stats row.
+ */
+export const skillTableAbilitiesParser: ParserPlugin<'hero-abilities'> = {
+  name: 'abilities-skill-table',
+  version: 1,
+  parserSet: ParserSet.MarvelRivals,
+  pageType: 'hero-abilities',
+  priority: 10,
+
+  matches: ({ $ }) => $(SKILL_TABLE).length > 0,
+
+  extract: ({ $ }) => {
+    const abilities: ParsedAbility[] = [];
+    let currentAbility: ParsedAbility | null = null;
+
+    $(SKILL_TABLE)
+      .first()
+      .find('tbody > tr')
+      .each((_, tr) => {
+        const tds = $(tr).find('td');
+
+        // Check if this is a row containing type and name (has exactly 3 td elements)
+        if (tds.length === 3) {
+          // Get the type from the first td
+          let type = '';
+          const typeCell = tds.first();
+
+          // Check for image with title (LMB/RMB case)
+          const typeImg = typeCell.find('img');
+          if (typeImg.length > 0) {
+            const imgTitle = typeImg.attr('title') || typeImg.attr('alt');
+            if (imgTitle === 'Left mouse button') {
+              type = 'Left Mouse Button';
+            } else if (imgTitle === 'Right mouse button') {
+              type = 'Right Mouse Button';
+            }
+          } else {
+            // If no image, get the text content
+            type = typeCell.text().trim().toUpperCase();
+          }
+
+          currentAbility = {
+            name: capitalizeWords(tds.last().text().trim()),
+            type,
+            description: '',
+            stats: {},
+          };
+          abilities.push(currentAbility);
+        }
+        // Handle description and stats rows
+        else if (
+          currentAbility &&
+          tds.length === 1 &&
+          tds.attr('colspan') === '3'
+        ) {
+          const td = tds.first();
+          if (!td.html()) {
+            return;
+          }
+
+          // Extract description from <small><i> tags
+          const description = td.find('small i').text().trim();
+          if (description) {
+            currentAbility.description = description;
+          }
+
+          // Extract stats
+          td.find('b').each((_, elem) => {
+            const fullText = $(elem).text().trim();
+            const separatorIndex = fullText.indexOf(' - ');
+
+            if (separatorIndex !== -1) {
+              const key = fullText
+                .substring(0, separatorIndex)
+                .toLowerCase()
+                .replace(/ /g, '_')
+                .replace(/_-$/, '');
+              const value = fullText.substring(separatorIndex + 3).trim();
+              if (key && value) {
+                currentAbility.stats[key] = value;
+              }
+            } else {
+              // Handle special effects or other stats without the ' - ' separator
+              const nextText = elem.nextSibling
+                ? $(elem.nextSibling).text().trim()
+                : '';
+              if (nextText) {
+                const key = fullText
+                  .replace(/:$/, '')
+                  .toLowerCase()
+                  .replace(/ /g, '_')
+                  .replace(/_-$/, '');
+                if (key) {
+                  currentAbility.stats[key] = nextText;
+                }
+              }
+            }
+          });
+        }
+      });
+
+    return abilities;
+  },
+};
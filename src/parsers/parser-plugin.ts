@@ -0,0 +1,70 @@
+import { Logger } from '@nestjs/common';
+import * as cheerio from 'cheerio';
+import { CheerioAPI } from 'cheerio';
+import { ParserSet } from 'src/domain/game.model';
+import { HeroLoreText } from 'src/domain/hero.model';
+import {
+  ParsedAbility,
+  ParsedHero,
+  ParsedNewsArticle,
+  ParsedNewsItem,
+  SkippedItem,
+} from 'src/utils/scraping.utils';
+
+/**
+ * What a parser returns for each kind of page.
+ */
+export interface ParserOutputs {
+  'hero-list': {
+    sections: number;
+    heroes: ParsedHero[];
+    skipped: SkippedItem[];
+  };
+  'hero-abilities': ParsedAbility[];
+  'hero-lore': HeroLoreText;
+  'news-list': {
+    found: number;
+    items: ParsedNewsItem[];
+    skipped: SkippedItem[];
+    nextPageUrl: string | null;
+  };
+  'news-article': ParsedNewsArticle | null;
+}
+
+export type ParserPageType = keyof ParserOutputs;
+
+// A fetched page, loaded once and shared by the match and extract steps
+export interface ParserPage {
+  url: string;
+  html: string;
+  $: CheerioAPI;
+}
+
+/**
+ * One layout variant of one kind of page. The registry asks every plugin of
+ * a game's parser set whether it can read a page and uses the matching
+ * plugin with the highest priority.
+ */
+export interface ParserPlugin<P extends ParserPageType = ParserPageType> {
+  // Unique within the parser set, e.g. 'abilities-skill-table'
+  name: string;
+  // Bump whenever the plugin produces different rows from the same page
+  version: number;
+  parserSet: ParserSet;
+  pageType: P;
+  priority: number;
+  matches(page: ParserPage): boolean;
+  extract(page: ParserPage, logger: Logger): ParserOutputs[P];
+}
+
+export function loadParserPage(url: string, html: string): ParserPage {
+  return { url, html, $: cheerio.load(html) };
+}
+
+/**
+ * The value stored in the `parser_version` column of rows a plugin produced,
+ * e.g. "marvel-rivals/abilities-skill-table@1".
+ */
+export function parserVersion(plugin: ParserPlugin): string {
+  return `${plugin.parserSet}/${plugin.name}@${plugin.version}`;
+}
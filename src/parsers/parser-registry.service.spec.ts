@@ -0,0 +1,74 @@
+import { ParserSet } from 'src/domain/game.model';
+import { ParserRegistry } from './parser-registry.service';
+import { loadParserPage, ParserPlugin, parserVersion } from './parser-plugin';
+
+describe('ParserRegistry', () => {
+  let registry: ParserRegistry;
+
+  const abilitiesPage = (html: string) =>
+    loadParserPage('https://marvelrivals.fandom.com/wiki/Storm', html);
+
+  beforeEach(() => {
+    registry = new ParserRegistry();
+  });
+
+  it('should register the built-in parsers', () => {
+    expect(registry.findAll().map(parserVersion)).toEqual(
+      expect.arrayContaining([
+        'marvel-rivals/abilities-skill-table@1',
+        'marvel-rivals/abilities-legacy-aside@1',
+        'marvel-rivals/news-article@1',
+      ]),
+    );
+  });
+
+  it('should pick the matching parser with the highest priority', () => {
+    const both = abilitiesPage(
+      '<table class="wikitable skill-table"></table><div class="fandom-table"><table><tbody><tr><td><aside></aside></td></tr></tbody></table></div>',
+    );
+    const legacy = abilitiesPage(
+      '<div class="fandom-table"><table><tbody><tr><td><aside></aside></td></tr></tbody></table></div>',
+    );
+
+    expect(
+      registry.resolve(ParserSet.MarvelRivals, 'hero-abilities', both)?.name,
+    ).toBe('abilities-skill-table');
+    expect(
+      registry.resolve(ParserSet.MarvelRivals, 'hero-abilities', legacy)?.name,
+    ).toBe('abilities-legacy-aside');
+  });
+
+  it('should return null when no parser recognizes the page', () => {
+    expect(
+      registry.resolve(
+        ParserSet.MarvelRivals,
+        'hero-abilities',
+        abilitiesPage('<p>Nothing here</p>'),
+      ),
+    ).toBeNull();
+  });
+
+  it('should prefer a newly registered variant with a higher priority', () => {
+    const plugin: ParserPlugin<'hero-abilities'> = {
+      name: 'abilities-cards',
+      version: 1,
+      parserSet: ParserSet.MarvelRivals,
+      pageType: 'hero-abilities',
+      priority: 20,
+      matches: ({ $ }) => $('.ability-card').length > 0,
+      extract: () => [],
+    };
+    registry.register(plugin);
+
+    expect(
+      registry.resolve(
+        ParserSet.MarvelRivals,
+        'hero-abilities',
+        abilitiesPage(
+          '<table class="wikitable skill-table"></table><div class="ability-card"></div>',
+        ),
+      ),
+    ).toBe(plugin);
+    expect(() => registry.register(plugin)).toThrow(/already registered/);
+  });
+});
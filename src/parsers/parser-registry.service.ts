@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ParserSet } from 'src/domain/game.model';
+import {
+  ParserPage,
+  ParserPageType,
+  ParserPlugin,
+  parserVersion,
+} from './parser-plugin';
+import { MARVEL_RIVALS_PARSERS } from './marvel-rivals/marvel-rivals-parsers';
+
+@Injectable()
+export class ParserRegistry {
+  private readonly logger = new Logger(ParserRegistry.name);
+  private readonly plugins: ParserPlugin[] = [];
+
+  constructor() {
+    MARVEL_RIVALS_PARSERS.forEach((plugin) => this.register(plugin));
+  }
+
+  register(plugin: ParserPlugin) {
+    const version = parserVersion(plugin);
+    if (
+      this.plugins.some(
+        (registered) =>
+          registered.parserSet === plugin.parserSet &&
+          registered.name === plugin.name,
+      )
+    ) {
+      throw new Error(`Parser ${version} is already registered`);
+    }
+
+    this.plugins.push(plugin);
+    this.logger.debug(`Registered parser ${version} for ${plugin.pageType}.`);
+  }
+
+  findAll(): ParserPlugin[] {
+    return [...this.plugins];
+  }
+
+  /**
+   * Picks the plugin of `parserSet` that reads `page`.
+   * @returns The matching plugin with the highest priority, or null when no
+   * plugin recognizes the page's layout.
+   */
+  resolve<P extends ParserPageType>(
+    parserSet: ParserSet,
+    pageType: P,
+    page: ParserPage,
+  ): ParserPlugin<P> | null {
+    const candidates = this.plugins
+      .filter(
+        (plugin): plugin is ParserPlugin<P> =>
+          plugin.parserSet === parserSet && plugin.pageType === pageType,
+      )
+      .sort((a, b) => b.priority - a.priority);
+
+    return candidates.find((plugin) => plugin.matches(page)) ?? null;
+  }
+}
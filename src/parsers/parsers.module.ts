@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ParserRegistry } from './parser-registry.service';
+
+@Module({
+  providers: [ParserRegistry],
+  exports: [ParserRegistry],
+})
+export class ParsersModule {}
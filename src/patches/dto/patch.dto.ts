@@ -0,0 +1,37 @@
+import { PatchChangeType } from 'src/domain/patch.model';
+
+export class PatchDto {
+  id: string;
+  news_url: string;
+  version: string | null;
+  title: string;
+  published_at: string;
+  created_at: string;
+}
+
+export class PatchEntryDto {
+  id: string;
+  patch_id: string;
+  position: number;
+  hero_id: string | null;
+  ability_id: string | null;
+  hero_name: string | null;
+  ability_name: string | null;
+  stat: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  change_type: PatchChangeType;
+  description: string;
+}
+
+export class PatchDetailDto extends PatchDto {
+  entries: PatchEntryDto[];
+}
+
+export interface PatchSource {
+  game_id: string;
+  url: string;
+  title: string;
+  published_at: Date;
+  body_html: string;
+}
@@ -0,0 +1,27 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PatchesController } from './patches.controller';
+import { PatchesService } from './patches.service';
+
+describe('PatchesController', () => {
+  let controller: PatchesController;
+  const patchesService = { findAll: jest.fn(), findOne: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PatchesController],
+      providers: [{ provide: PatchesService, useValue: patchesService }],
+    }).compile();
+
+    controller = module.get<PatchesController>(PatchesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass pagination to the service', async () => {
+    await controller.findAll(2, 10);
+
+    expect(patchesService.findAll).toHaveBeenCalledWith(2, 10);
+  });
+});
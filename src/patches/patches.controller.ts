@@ -0,0 +1,29 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE } from 'src/common/pagination';
+import { PatchesService } from './patches.service';
+
+@Controller('patches')
+export class PatchesController {
+  constructor(private readonly patchesService: PatchesService) {}
+
+  @Get()
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    return this.patchesService.findAll(page, limit);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.patchesService.findOne(id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from 'src/supabase/supabase.module';
+import { PatchesController } from './patches.controller';
+import { PatchesService } from './patches.service';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [PatchesController],
+  providers: [PatchesService],
+  exports: [PatchesService],
+})
+export class PatchesModule {}
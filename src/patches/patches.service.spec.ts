@@ -0,0 +1,121 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PatchesService } from './patches.service';
+
+describe('PatchesService', () => {
+  let service: PatchesService;
+  let results: Array<{ data: any; count?: number; error: any }>;
+  const query: Record<string, jest.Mock> = {};
+
+  beforeEach(async () => {
+    results = [];
+    for (const method of [
+      'from',
+      'select',
+      'upsert',
+      'insert',
+      'delete',
+      'eq',
+      'in',
+      'order',
+      'range',
+      'single',
+      'maybeSingle',
+      'rpc',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve(results.shift() ?? { data: null, error: null }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PatchesService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+      ],
+    }).compile();
+
+    service = module.get<PatchesService>(PatchesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store entries linked to heroes and abilities', async () => {
+    results = [
+      { data: [{ id: 'hero-1', name: 'Hulk' }], error: null },
+      { data: { id: 'patch-1' }, error: null },
+      {
+        data: [{ id: 'ability-1', hero_id: 'hero-1', slug: 'gamma-burst' }],
+        error: null,
+      },
+    ];
+
+    const stored = await service.ingest({
+      game_id: 'game-1',
+      url: 'https://www.marvelrivals.com/gameupdate/20241206/1.html',
+      title: 'Version 20241206 Patch Notes',
+      published_at: new Date('2024-12-06T00:00:00.000Z'),
+      body_html:
+        '<h3>Hulk</h3><ul><li>Gamma Burst: Damage increased from 40 to 45</li><li>Incredible Leap: Cooldown 8s → 6s</li></ul>',
+    });
+
+    expect(stored).toBe(2);
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ version: '20241206' }),
+      { onConflict: 'news_url' },
+    );
+    expect(query.rpc).toHaveBeenCalledWith('replace_patch_entries', {
+      target_patch_id: 'patch-1',
+      entries: [
+        expect.objectContaining({
+          patch_id: 'patch-1',
+          position: 0,
+          hero_id: 'hero-1',
+          ability_id: 'ability-1',
+          stat: 'damage',
+          change_type: 'buff',
+        }),
+        expect.objectContaining({
+          position: 1,
+          hero_id: 'hero-1',
+          ability_id: null,
+          stat: 'cooldown',
+          change_type: 'buff',
+        }),
+      ],
+    });
+    expect(query.delete).not.toHaveBeenCalled();
+  });
+
+  it('should remove the patch of an article without entries', async () => {
+    results = [{ data: [{ id: 'hero-1', name: 'Hulk' }], error: null }];
+
+    const stored = await service.ingest({
+      game_id: 'game-1',
+      url: 'https://www.marvelrivals.com/gameupdate/20241206/2.html',
+      title: 'Server maintenance',
+      published_at: new Date('2024-12-06T00:00:00.000Z'),
+      body_html: '<p>The servers will be down for two hours.</p>',
+    });
+
+    expect(stored).toBe(0);
+    expect(query.upsert).not.toHaveBeenCalled();
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.eq).toHaveBeenCalledWith(
+      'news_url',
+      'https://www.marvelrivals.com/gameupdate/20241206/2.html',
+    );
+  });
+
+  it('should throw NotFoundException for an unknown patch', async () => {
+    results = [{ data: null, error: null }];
+
+    await expect(service.findOne('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
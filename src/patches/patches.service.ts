@@ -0,0 +1,218 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, toRange } from 'src/common/pagination';
+import { abilitySlug } from 'src/domain/ability.model';
+import {
+  Patch,
+  PatchEntry,
+  validatePatch,
+  validatePatchEntry,
+} from 'src/domain/patch.model';
+import { PatchNotesUtils } from 'src/utils/patch-notes.utils';
+import { PatchDetailDto, PatchDto, PatchSource } from './dto/patch.dto';
+
+@Injectable()
+export class PatchesService {
+  private readonly logger = new Logger(PatchesService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async findAll(
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<PatchDto>> {
+    const [from, to] = toRange(page, limit);
+
+    const { data, count, error } = await this.supabaseService
+      .getClient()
+      .from('patches')
+      .select('*', { count: 'exact' })
+      .order('published_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching patches: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch patches');
+    }
+
+    return { data: data ?? [], page, limit, total: count ?? 0 };
+  }
+
+  async findOne(id: string): Promise<PatchDetailDto> {
+    const client = this.supabaseService.getClient();
+
+    const { data: patch, error } = await client
+      .from('patches')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Error fetching patch ${id}: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch patch');
+    }
+
+    if (!patch) {
+      throw new NotFoundException(`Patch ${id} not found`);
+    }
+
+    const { data: entries, error: entriesError } = await client
+      .from('patch_entries')
+      .select('*')
+      .eq('patch_id', id)
+      .order('position', { ascending: true });
+
+    if (entriesError) {
+      this.logger.error(
+        `Error fetching entries of patch ${id}: ${entriesError.message}`,
+      );
+      throw new InternalServerErrorException('Could not fetch patch');
+    }
+
+    return { ...patch, entries: entries ?? [] };
+  }
+
+  /**
+   * Parses a game update article into a patch and its entries, replacing
+   * the entries of an earlier parse of the same article, or the whole patch
+   * when the article no longer holds patch notes. Hero and ability names are
+   * linked to stored rows where they match.
+   * @returns The number of entries stored; 0 when the article holds no
+   * patch notes.
+   */
+  async ingest(source: PatchSource): Promise<number> {
+    const client = this.supabaseService.getClient();
+
+    const { data: heroes, error: heroesError } = await client
+      .from('marvel_rivals_heroes')
+      .select('id, name')
+      .eq('game_id', source.game_id);
+
+    if (heroesError) {
+      throw new Error(`Error fetching heroes: ${heroesError.message}`);
+    }
+
+    const parsed = PatchNotesUtils.extractEntries(
+      source.body_html,
+      (heroes ?? []).map((hero) => hero.name),
+    );
+    if (parsed.length === 0) {
+      this.logger.log(`No patch notes found in ${source.url}.`);
+      // An edited article may no longer hold the patch notes it had; its
+      // entries go with the patch
+      const { error: deleteError } = await client
+        .from('patches')
+        .delete()
+        .eq('news_url', source.url);
+
+      if (deleteError) {
+        throw new Error(`Error removing patch: ${deleteError.message}`);
+      }
+      return 0;
+    }
+
+    const patch: Patch = {
+      news_url: source.url,
+      version: PatchNotesUtils.extractVersion(source.title, source.url),
+      title: source.title,
+      published_at: source.published_at,
+    };
+
+    const patchErrors = validatePatch(patch);
+    if (patchErrors.length > 0) {
+      throw new Error(`Invalid patch: ${patchErrors.join('; ')}`);
+    }
+
+    const { data: stored, error: patchError } = await client
+      .from('patches')
+      .upsert(patch, { onConflict: 'news_url' })
+      .select('id')
+      .single();
+
+    if (patchError) {
+      throw new Error(`Error upserting patch: ${patchError.message}`);
+    }
+
+    const heroIds = new Map(
+      (heroes ?? []).map((hero) => [hero.name.toLowerCase(), hero.id]),
+    );
+    const abilityIds = await this.findAbilityIds([
+      ...new Set(
+        parsed
+          .map((entry) => heroIds.get(entry.hero_name?.toLowerCase()))
+          .filter(Boolean),
+      ),
+    ]);
+
+    const entries: PatchEntry[] = [];
+    parsed.forEach((entry, position) => {
+      const heroId = heroIds.get(entry.hero_name?.toLowerCase()) ?? null;
+      const row: PatchEntry = {
+        ...entry,
+        patch_id: stored.id,
+        position,
+        hero_id: heroId,
+        ability_id:
+          heroId && entry.ability_name
+            ? (abilityIds.get(`${heroId}:${abilitySlug(entry.ability_name)}`) ??
+              null)
+            : null,
+      };
+
+      const errors = validatePatchEntry(row);
+      if (errors.length > 0) {
+        this.logger.warn(
+          `Rejected patch entry "${entry.description}": ${errors.join('; ')}`,
+        );
+        return;
+      }
+      entries.push(row);
+    });
+
+    // Re-parsing an edited article replaces its entries, in one transaction
+    const { error: replaceError } = await client.rpc('replace_patch_entries', {
+      target_patch_id: stored.id,
+      entries,
+    });
+
+    if (replaceError) {
+      throw new Error(`Error replacing patch entries: ${replaceError.message}`);
+    }
+
+    this.logger.log(
+      `Stored ${entries.length} patch entries for ${patch.version ?? source.url}.`,
+    );
+    return entries.length;
+  }
+
+  // Ability ids keyed by `${hero_id}:${slug}`
+  private async findAbilityIds(
+    heroIds: string[],
+  ): Promise<Map<string, string>> {
+    if (heroIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_abilities')
+      .select('id, hero_id, slug')
+      .in('hero_id', heroIds);
+
+    if (error) {
+      throw new Error(`Error fetching abilities: ${error.message}`);
+    }
+
+    return new Map(
+      (data ?? []).map((ability) => [
+        `${ability.hero_id}:${ability.slug}`,
+        ability.id,
+      ]),
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { LayoutDriftService } from './layout-drift.service';
+import { ScrapeRunResult } from './scrape-run';
+
+describe('LayoutDriftService', () => {
+  let service: LayoutDriftService;
+  let post: jest.SpyInstance;
+
+  const result = {
+    id: 'run-1',
+    job: 'heroes',
+    warnings: [
+      {
+        page_type: 'hero-list',
+        url: 'https://marvelrivals.fandom.com/wiki/Heroes',
+        check: 'selector:div#mr-main',
+        message: 'Expected at least 3 role sections (div#mr-main), found 0',
+        expected: 3,
+        actual: 0,
+      },
+    ],
+  } as ScrapeRunResult;
+
+  beforeEach(async () => {
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LayoutDriftService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'https://hooks.example.com/drift' },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LayoutDriftService>(LayoutDriftService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should keep drift reports and send them to the alert hook', async () => {
+    await service.report(result);
+
+    expect(service.getReports()).toEqual([
+      expect.objectContaining({ run_id: 'run-1', warnings: result.warnings }),
+    ]);
+    expect(post).toHaveBeenCalledWith(
+      'https://hooks.example.com/drift',
+      expect.objectContaining({ job: 'heroes', warnings: result.warnings }),
+      expect.anything(),
+    );
+  });
+
+  it('should ignore runs without warnings', async () => {
+    await service.report({ ...result, warnings: [] });
+
+    expect(service.getReports()).toEqual([]);
+    expect(post).not.toHaveBeenCalled();
+  });
+});
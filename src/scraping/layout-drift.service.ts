@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { ScrapeJobName, ScrapeRunResult } from './scrape-run';
+import { DriftWarning } from './page-health';
+
+export interface DriftReport {
+  run_id: string | null;
+  job: ScrapeJobName;
+  detected_at: string;
+  warnings: DriftWarning[];
+}
+
+/**
+ * Keeps the most recent layout drift reports for the diagnostics endpoint and
+ * forwards them to DRIFT_ALERT_WEBHOOK_URL when one is configured.
+ */
+@Injectable()
+export class LayoutDriftService {
+  private readonly logger = new Logger(LayoutDriftService.name);
+
+  private readonly maxReports = 50;
+  private readonly reports: DriftReport[] = [];
+  private readonly webhookUrl: string | undefined;
+
+  constructor(private readonly configService: ConfigService) {
+    this.webhookUrl = this.configService.get<string>('DRIFT_ALERT_WEBHOOK_URL');
+  }
+
+  getReports(): DriftReport[] {
+    return [...this.reports].reverse();
+  }
+
+  async report(result: ScrapeRunResult) {
+    if (result.warnings.length === 0) {
+      return;
+    }
+
+    const report: DriftReport = {
+      run_id: result.id,
+      job: result.job,
+      detected_at: new Date().toISOString(),
+      warnings: result.warnings,
+    };
+
+    this.reports.push(report);
+    this.reports.splice(0, Math.max(0, this.reports.length - this.maxReports));
+
+    for (const warning of result.warnings) {
+      this.logger.warn(
+        `Layout drift on ${warning.page_type} ${warning.url}: ${warning.message}`,
+      );
+    }
+
+    if (!this.webhookUrl) {
+      return;
+    }
+
+    try {
+      await axios.post(
+        this.webhookUrl,
+        {
+          text: `Layout drift detected in ${result.job} run ${result.id ?? ''}: ${result.warnings.length} warning(s)`,
+          ...report,
+        },
+        { timeout: 5000 },
+      );
+    } catch (error) {
+      this.logger.error(`Failed to send drift alert: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  checkMinimumCount,
+  checkPageHealth,
+  checkPreviousRunRatio,
+} from './page-health';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '../utils/__fixtures__', name), 'utf8');
+
+describe('page health checks', () => {
+  const heroUrl = 'https://marvelrivals.fandom.com/wiki/Storm';
+
+  it('should pass a healthy hero page', () => {
+    const html = fixture('hero-skill-table.html');
+
+    expect(checkPageHealth('hero-infobox', heroUrl, html)).toEqual([]);
+    expect(checkPageHealth('hero-abilities', heroUrl, html)).toEqual([]);
+  });
+
+  it('should flag a hero page without an infobox', () => {
+    const warnings = checkPageHealth(
+      'hero-infobox',
+      heroUrl,
+      fixture('hero-legacy-aside.html'),
+    );
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        page_type: 'hero-infobox',
+        url: heroUrl,
+        expected: 1,
+        actual: 0,
+      }),
+    ]);
+  });
+
+  it('should flag a heroes page with too few gallery entries', () => {
+    const warnings = checkPageHealth(
+      'hero-list',
+      'https://marvelrivals.fandom.com/wiki/Heroes',
+      fixture('heroes-list.html'),
+    );
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        check: 'selector:div#mr-main div.gallery-image-wrapper.accent',
+        expected: 10,
+        actual: 7,
+      }),
+    ]);
+  });
+
+  it('should flag an empty news listing', () => {
+    expect(
+      checkPageHealth('news-list', 'https://www.marvelrivals.com/news/', ''),
+    ).toHaveLength(1);
+  });
+
+  it('should flag sharp drops against the previous run', () => {
+    expect(checkPreviousRunRatio('hero-list', null, 'heroes', 20, 33)).toEqual(
+      expect.objectContaining({ check: 'previous-run-ratio', expected: 27 }),
+    );
+    expect(
+      checkPreviousRunRatio('hero-list', null, 'heroes', 30, 33),
+    ).toBeNull();
+    expect(
+      checkPreviousRunRatio('hero-list', null, 'heroes', 5, null),
+    ).toBeNull();
+  });
+
+  it('should flag items below a minimum count', () => {
+    expect(
+      checkMinimumCount('hero-abilities', heroUrl, 'abilities', 1, 3),
+    ).toEqual(expect.objectContaining({ expected: 3, actual: 1 }));
+    expect(
+      checkMinimumCount('hero-abilities', heroUrl, 'abilities', 4, 3),
+    ).toBeNull();
+  });
+});
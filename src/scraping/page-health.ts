@@ -0,0 +1,138 @@
+import * as cheerio from 'cheerio';
+
+// Named after what we extract, since one hero page feeds several parsers
+export type PageType =
+  | 'hero-list'
+  | 'hero-infobox'
+  | 'hero-abilities'
+  | 'news-list';
+
+export interface DriftWarning {
+  page_type: PageType;
+  // null for checks that span a whole run rather than a single page
+  url: string | null;
+  check: string;
+  message: string;
+  expected: number | null;
+  actual: number | null;
+}
+
+interface SelectorCheck {
+  selector: string;
+  min: number;
+  description: string;
+}
+
+// A run whose item count drops below this share of the previous run's count
+// is treated as a broken page rather than content actually being removed.
+export const MIN_PREVIOUS_RUN_RATIO = 0.8;
+
+export const MIN_ABILITIES_PER_HERO = 3;
+
+const PAGE_HEALTH_CHECKS: Record<PageType, SelectorCheck[]> = {
+  'hero-list': [
+    { selector: 'div#mr-main', min: 3, description: 'role sections' },
+    {
+      selector: 'div#mr-main div.gallery-image-wrapper.accent',
+      min: 10,
+      description: 'hero gallery entries',
+    },
+  ],
+  'hero-infobox': [
+    {
+      // Ability infoboxes on legacy pages also use [data-source], so look
+      // for the hero stat fields specifically
+      selector:
+        'aside.portable-infobox [data-source="health"], aside.portable-infobox [data-source="difficulty"]',
+      min: 1,
+      description: 'infobox stat fields',
+    },
+  ],
+  'hero-abilities': [
+    {
+      selector: 'table.wikitable.skill-table, .fandom-table aside',
+      min: 1,
+      description: 'ability tables',
+    },
+  ],
+  'news-list': [{ selector: 'a.list-item', min: 1, description: 'news cards' }],
+};
+
+/**
+ * Checks that the selectors our parsers depend on are still present on a page.
+ * @returns One warning per check that failed; an empty list means healthy.
+ */
+export function checkPageHealth(
+  pageType: PageType,
+  url: string,
+  html: string,
+): DriftWarning[] {
+  const $ = cheerio.load(html);
+
+  return PAGE_HEALTH_CHECKS[pageType]
+    .map(({ selector, min, description }) => ({
+      selector,
+      min,
+      description,
+      actual: $(selector).length,
+    }))
+    .filter(({ min, actual }) => actual < min)
+    .map(({ selector, min, description, actual }) => ({
+      page_type: pageType,
+      url,
+      check: `selector:${selector}`,
+      message: `Expected at least ${min} ${description} (${selector}), found ${actual}`,
+      expected: min,
+      actual,
+    }));
+}
+
+/**
+ * Compares an item count against the previous run.
+ * @returns A warning when the count dropped sharply, otherwise null.
+ */
+export function checkPreviousRunRatio(
+  pageType: PageType,
+  url: string | null,
+  description: string,
+  actual: number,
+  previous: number | null,
+): DriftWarning | null {
+  if (!previous || actual >= previous * MIN_PREVIOUS_RUN_RATIO) {
+    return null;
+  }
+
+  return {
+    page_type: pageType,
+    url,
+    check: 'previous-run-ratio',
+    message: `Found ${actual} ${description}, previous run had ${previous}`,
+    expected: Math.ceil(previous * MIN_PREVIOUS_RUN_RATIO),
+    actual,
+  };
+}
+
+/**
+ * Checks that a single item extracted enough children, e.g. abilities per hero.
+ * @returns A warning when below `min`, otherwise null.
+ */
+export function checkMinimumCount(
+  pageType: PageType,
+  url: string,
+  description: string,
+  actual: number,
+  min: number,
+): DriftWarning | null {
+  if (actual >= min) {
+    return null;
+  }
+
+  return {
+    page_type: pageType,
+    url,
+    check: 'minimum-count',
+    message: `Expected at least ${min} ${description}, found ${actual}`,
+    expected: min,
+    actual,
+  };
+}
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { ScrapeJobName, ScrapeRunResult, ScrapeTrigger } from './scrape-run';
+
+/**
+ * How far the news scraper pages back through a listing. Incremental runs
+ * stop at the first article that is already stored; backfills skip stored
+ * articles that are unchanged and page on until the end of the listing or
+ * the configured depth.
+ */
+export enum NewsScrapeMode {
+  Incremental = 'incremental',
+  Backfill = 'backfill',
+}
+
+// A pipeline runs hero discovery, lore and abilities as stages of one job
+export type ScrapeJobType = ScrapeJobName | 'pipeline';
+
+export interface ScrapeJobOptions {
+  // Only used by news jobs
+  mode?: NewsScrapeMode;
+}
+
+export type ScrapeJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * The part of a job a scraper sees: it reports how far it got and checks
+ * between items whether it has been asked to stop.
+ */
+export interface ScrapeProgress {
+  readonly cancelled: boolean;
+  setTotal(total: number): void;
+  advance(): void;
+}
+
+export const NO_PROGRESS: ScrapeProgress = {
+  cancelled: false,
+  setTotal: () => undefined,
+  advance: () => undefined,
+};
+
+export type ScrapeStageView = Pick<
+  ScrapeRunResult,
+  | 'job'
+  | 'status'
+  | 'inserted_count'
+  | 'updated_count'
+  | 'skipped_count'
+  | 'invalid_count'
+  | 'retired_count'
+  | 'failed_count'
+  | 'error'
+> & { run_id: string | null };
+
+export interface ScrapeJobView {
+  id: string;
+  type: ScrapeJobType;
+  trigger: ScrapeTrigger;
+  options: ScrapeJobOptions;
+  status: ScrapeJobStatus;
+  processed: number;
+  total: number | null;
+  queued_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  // The run of a single-stage job; see stages for pipelines
+  run_id: string | null;
+  stages: ScrapeStageView[];
+  error: string | null;
+  // Ids of the jobs that must complete before this one runs
+  depends_on: string[];
+}
+
+export class ScrapeJob implements ScrapeProgress {
+  readonly id = randomUUID();
+  readonly queuedAt = new Date();
+  startedAt: Date | null = null;
+  finishedAt: Date | null = null;
+  status: ScrapeJobStatus = 'queued';
+  processed = 0;
+  total: number | null = null;
+  // One per stage that ran
+  results: ScrapeRunResult[] = [];
+  error: string | null = null;
+  private cancelRequested = false;
+
+  constructor(
+    readonly type: ScrapeJobType,
+    readonly trigger: ScrapeTrigger,
+    readonly options: ScrapeJobOptions = {},
+    readonly dependsOn: ScrapeJob[] = [],
+  ) {}
+
+  get cancelled(): boolean {
+    return this.cancelRequested;
+  }
+
+  get active(): boolean {
+    return this.status === 'queued' || this.status === 'running';
+  }
+
+  setTotal(total: number) {
+    this.total = total;
+  }
+
+  advance() {
+    this.processed += 1;
+  }
+
+  requestCancel() {
+    this.cancelRequested = true;
+  }
+
+  toView(): ScrapeJobView {
+    return {
+      id: this.id,
+      type: this.type,
+      trigger: this.trigger,
+      options: this.options,
+      status: this.status,
+      processed: this.processed,
+      total: this.total,
+      queued_at: this.queuedAt.toISOString(),
+      started_at: this.startedAt?.toISOString() ?? null,
+      finished_at: this.finishedAt?.toISOString() ?? null,
+      run_id: this.results.length === 1 ? this.results[0].id : null,
+      stages: this.results.map((result) => ({
+        job: result.job,
+        run_id: result.id,
+        status: result.status,
+        inserted_count: result.inserted_count,
+        updated_count: result.updated_count,
+        skipped_count: result.skipped_count,
+        invalid_count: result.invalid_count,
+        retired_count: result.retired_count,
+        failed_count: result.failed_count,
+        error: result.error,
+      })),
+      error: this.error,
+      depends_on: this.dependsOn.map((job) => job.id),
+    };
+  }
+}
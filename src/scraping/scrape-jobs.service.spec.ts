@@ -0,0 +1,184 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchService } from 'src/search/search.service';
+import { SearchEntityType } from 'src/search/search-index';
+import { ScrapingService } from './scraping.service';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeProgress } from './scrape-job';
+
+describe('ScrapeJobsService', () => {
+  let service: ScrapeJobsService;
+  let release: () => void;
+  const scrapingService = {
+    scrapeNews: jest.fn(),
+    scrapeHeroes: jest.fn(),
+    scrapeHeroLoreAndStats: jest.fn(),
+    scrapeHeroAbilities: jest.fn(),
+    scrapeHeroPipeline: jest.fn(),
+  };
+  const searchService = { reindex: jest.fn() };
+
+  // Simulates a scrape over three heroes that waits for release() before
+  // processing the remaining two.
+  const blockingScrape = async (_trigger: string, progress: ScrapeProgress) => {
+    progress.setTotal(3);
+    progress.advance();
+    await new Promise<void>((resolve) => (release = resolve));
+    if (progress.cancelled) {
+      return { id: 'run-1', status: 'cancelled', error: null };
+    }
+    progress.advance();
+    progress.advance();
+    return { id: 'run-1', status: 'succeeded', error: null };
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapeJobsService,
+        { provide: ScrapingService, useValue: scrapingService },
+        { provide: SearchService, useValue: searchService },
+      ],
+    }).compile();
+
+    service = module.get<ScrapeJobsService>(ScrapeJobsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should run a job in the background and report progress', async () => {
+    scrapingService.scrapeHeroAbilities.mockImplementation(blockingScrape);
+
+    const job = service.enqueue('abilities', 'http');
+    await flush();
+
+    expect(service.findOne(job.id)).toEqual(
+      expect.objectContaining({ status: 'running', processed: 1, total: 3 }),
+    );
+
+    release();
+    await flush();
+
+    expect(service.findOne(job.id)).toEqual(
+      expect.objectContaining({
+        status: 'completed',
+        processed: 3,
+        run_id: 'run-1',
+      }),
+    );
+  });
+
+  it('should rebuild the search documents of what a job wrote', async () => {
+    const counts = { inserted_count: 0, updated_count: 0, retired_count: 0 };
+    scrapingService.scrapeHeroPipeline.mockResolvedValue([
+      { ...counts, job: 'heroes', status: 'succeeded' },
+      { ...counts, job: 'lore', status: 'succeeded', updated_count: 2 },
+      { ...counts, job: 'abilities', status: 'succeeded' },
+    ]);
+    scrapingService.scrapeNews.mockResolvedValue({
+      ...counts,
+      job: 'news',
+      status: 'succeeded',
+    });
+
+    service.enqueue('pipeline', 'http');
+    service.enqueue('news', 'http');
+    await flush();
+
+    expect(searchService.reindex).toHaveBeenCalledTimes(1);
+    expect(searchService.reindex).toHaveBeenCalledWith([SearchEntityType.Hero]);
+  });
+
+  it('should not start a second job of the same type', async () => {
+    scrapingService.scrapeHeroAbilities.mockImplementation(blockingScrape);
+
+    const manual = service.enqueue('abilities', 'http');
+    await flush();
+    service.enqueue('abilities', 'cron');
+
+    expect(service.findAll()).toHaveLength(1);
+    expect(scrapingService.scrapeHeroAbilities).toHaveBeenCalledTimes(1);
+    expect(service.enqueue('abilities', 'http').id).toBe(manual.id);
+
+    release();
+  });
+
+  it('should cancel a running job at the next item', async () => {
+    scrapingService.scrapeHeroLoreAndStats.mockImplementation(blockingScrape);
+
+    const job = service.enqueue('lore', 'http');
+    await flush();
+    service.cancel(job.id);
+    release();
+    await flush();
+
+    expect(service.findOne(job.id).status).toBe('cancelled');
+    expect(() => service.cancel(job.id)).toThrow(ConflictException);
+  });
+
+  it('should cancel a queued job without running it', async () => {
+    scrapingService.scrapeHeroAbilities.mockImplementation(blockingScrape);
+
+    service.enqueue('abilities', 'http');
+    const queued = service.enqueue('news', 'http');
+    await flush();
+
+    expect(service.cancel(queued.id).status).toBe('cancelled');
+    release();
+    await flush();
+
+    expect(scrapingService.scrapeNews).not.toHaveBeenCalled();
+  });
+
+  it('should skip a job whose dependency did not complete', async () => {
+    scrapingService.scrapeHeroes.mockRejectedValue(new Error('Wiki down'));
+
+    const heroes = service.enqueue('heroes', 'cron');
+    const lore = service.enqueue('lore', 'cron', {}, [heroes]);
+    await flush();
+
+    expect(service.findOne(lore.id)).toEqual(
+      expect.objectContaining({
+        status: 'cancelled',
+        depends_on: [heroes.id],
+        error: `Dependency heroes job ${heroes.id} failed`,
+      }),
+    );
+    expect(scrapingService.scrapeHeroLoreAndStats).not.toHaveBeenCalled();
+  });
+
+  it('should report each stage of a pipeline', async () => {
+    scrapingService.scrapeHeroPipeline.mockResolvedValue([
+      { id: 'run-1', job: 'heroes', status: 'succeeded', error: null },
+      { id: 'run-2', job: 'lore', status: 'partial', error: null },
+      { id: 'run-3', job: 'abilities', status: 'failed', error: 'Timeout' },
+    ]);
+
+    const job = service.enqueue('pipeline', 'http');
+    await flush();
+
+    const view = service.findOne(job.id);
+    expect(view).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        error: 'Timeout',
+        run_id: null,
+      }),
+    );
+    expect(view.stages.map(({ job, run_id }) => [job, run_id])).toEqual([
+      ['heroes', 'run-1'],
+      ['lore', 'run-2'],
+      ['abilities', 'run-3'],
+    ]);
+  });
+
+  it('should throw NotFoundException for an unknown job', () => {
+    expect(() => service.findOne('missing')).toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,226 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SearchService } from 'src/search/search.service';
+import { SearchEntityType } from 'src/search/search-index';
+import { ScrapingService } from './scraping.service';
+import { ScrapeJobName, ScrapeRunResult, ScrapeTrigger } from './scrape-run';
+import {
+  ScrapeJob,
+  ScrapeJobType,
+  ScrapeJobOptions,
+  ScrapeJobView,
+  ScrapeProgress,
+} from './scrape-job';
+
+// Search documents built from what each job writes; ability titles include
+// the hero name, so hero writes refresh abilities too
+const SEARCH_TYPES_BY_JOB: Record<ScrapeJobName, SearchEntityType[]> = {
+  news: [SearchEntityType.News],
+  heroes: [SearchEntityType.Hero, SearchEntityType.Ability],
+  lore: [SearchEntityType.Hero],
+  abilities: [SearchEntityType.Ability],
+};
+
+/**
+ * Runs scrape jobs one at a time in the background. Cron and HTTP triggers
+ * both go through enqueue(), which hands back the already active job when one
+ * of the same type is queued or running, so a job type never runs twice. A
+ * job queued with dependencies only runs if they all completed; as the queue
+ * is first in, first out, they are always queued ahead of it.
+ */
+@Injectable()
+export class ScrapeJobsService {
+  private readonly logger = new Logger(ScrapeJobsService.name);
+
+  // Finished jobs are only kept in memory for status polling
+  private readonly maxFinishedJobs = 100;
+
+  private readonly jobs = new Map<string, ScrapeJob>();
+  private readonly queue: ScrapeJob[] = [];
+  private draining = false;
+
+  // Each runner resolves to the results of the runs it made, in order
+  private readonly runners: Record<
+    ScrapeJobType,
+    (
+      trigger: ScrapeTrigger,
+      progress: ScrapeProgress,
+      options: ScrapeJobOptions,
+    ) => Promise<ScrapeRunResult[]>
+  > = {
+    news: async (trigger, progress, options) => [
+      await this.scrapingService.scrapeNews(trigger, progress, options.mode),
+    ],
+    heroes: async (trigger, progress) => [
+      await this.scrapingService.scrapeHeroes(trigger, progress),
+    ],
+    lore: async (trigger, progress) => [
+      await this.scrapingService.scrapeHeroLoreAndStats(trigger, progress),
+    ],
+    abilities: async (trigger, progress) => [
+      await this.scrapingService.scrapeHeroAbilities(trigger, progress),
+    ],
+    pipeline: (trigger, progress) =>
+      this.scrapingService.scrapeHeroPipeline(trigger, progress),
+  };
+
+  constructor(
+    private readonly scrapingService: ScrapingService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  enqueue(
+    type: ScrapeJobType,
+    trigger: ScrapeTrigger,
+    options: ScrapeJobOptions = {},
+    dependsOn: ScrapeJobView[] = [],
+  ): ScrapeJobView {
+    const active = [...this.jobs.values()].find(
+      (job) => job.type === type && job.active,
+    );
+    if (active) {
+      this.logger.warn(
+        `A ${type} job (${active.id}) is already ${active.status}; ignoring ${trigger} trigger.`,
+      );
+      return active.toView();
+    }
+
+    const job = new ScrapeJob(
+      type,
+      trigger,
+      options,
+      dependsOn.map(({ id }) => this.getJob(id)),
+    );
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.logger.log(`Queued ${type} job ${job.id} (${trigger}).`);
+
+    void this.drain();
+
+    return job.toView();
+  }
+
+  findAll(): ScrapeJobView[] {
+    return [...this.jobs.values()]
+      .sort((a, b) => b.queuedAt.getTime() - a.queuedAt.getTime())
+      .map((job) => job.toView());
+  }
+
+  findOne(id: string): ScrapeJobView {
+    return this.getJob(id).toView();
+  }
+
+  cancel(id: string): ScrapeJobView {
+    const job = this.getJob(id);
+
+    if (!job.active) {
+      throw new ConflictException(`Scrape job ${id} is already ${job.status}`);
+    }
+
+    if (job.status === 'queued') {
+      this.queue.splice(this.queue.indexOf(job), 1);
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+    } else {
+      // Running jobs stop at the next item boundary
+      job.requestCancel();
+    }
+
+    this.logger.log(`Cancellation requested for ${job.type} job ${id}.`);
+    return job.toView();
+  }
+
+  private getJob(id: string): ScrapeJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`Scrape job ${id} not found`);
+    }
+    return job;
+  }
+
+  private async drain() {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      while (this.queue.length > 0) {
+        await this.run(this.queue.shift());
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run(job: ScrapeJob) {
+    const unmet = job.dependsOn.find(
+      (dependency) => dependency.status !== 'completed',
+    );
+    if (unmet) {
+      this.logger.warn(
+        `Skipping ${job.type} job ${job.id}: ${unmet.type} job ${unmet.id} ${unmet.status}.`,
+      );
+      job.error = `Dependency ${unmet.type} job ${unmet.id} ${unmet.status}`;
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+      this.pruneFinishedJobs();
+      return;
+    }
+
+    job.status = 'running';
+    job.startedAt = new Date();
+    this.logger.log(`Starting ${job.type} job ${job.id}.`);
+
+    try {
+      job.results = await this.runners[job.type](job.trigger, job, job.options);
+      this.refreshSearch(job.results);
+      const statuses = job.results.map((result) => result.status);
+      job.error = job.results.find((result) => result.error)?.error ?? null;
+      job.status = statuses.includes('cancelled')
+        ? 'cancelled'
+        : statuses.includes('failed')
+          ? 'failed'
+          : 'completed';
+    } catch (error) {
+      this.logger.error(`Scrape job ${job.id} crashed: ${error.message}`);
+      job.error = error.message;
+      job.status = 'failed';
+    } finally {
+      job.finishedAt = new Date();
+      this.pruneFinishedJobs();
+    }
+  }
+
+  /**
+   * Rebuilds the search documents of whatever the runs wrote. Not awaited, so
+   * a slow rebuild never holds up the queue; the run rows are already saved.
+   */
+  private refreshSearch(results: ScrapeRunResult[]) {
+    const types = new Set(
+      results
+        .filter(
+          (result) =>
+            result.inserted_count +
+              result.updated_count +
+              result.retired_count >
+            0,
+        )
+        .flatMap((result) => SEARCH_TYPES_BY_JOB[result.job]),
+    );
+    if (types.size > 0) {
+      void this.searchService.reindex([...types]);
+    }
+  }
+
+  private pruneFinishedJobs() {
+    const finished = [...this.jobs.values()].filter((job) => !job.active);
+    finished
+      .slice(0, Math.max(0, finished.length - this.maxFinishedJobs))
+      .forEach((job) => this.jobs.delete(job.id));
+  }
+}
@@ -0,0 +1,166 @@
+import { DriftWarning } from './page-health';
+
+export type ScrapeJobName = 'news' | 'heroes' | 'lore' | 'abilities';
+
+export type ScrapeTrigger = 'cron' | 'http';
+
+export type ScrapeRunStatus =
+  | 'running'
+  | 'succeeded'
+  | 'partial'
+  | 'degraded'
+  | 'failed'
+  | 'cancelled';
+
+export type ScrapeItemOutcome =
+  | 'inserted'
+  | 'updated'
+  | 'skipped'
+  | 'invalid'
+  | 'retired'
+  | 'failed';
+
+export interface ScrapeRunItem {
+  key: string;
+  outcome: ScrapeItemOutcome;
+  reason?: string;
+}
+
+export interface ScrapeRunResult {
+  id: string | null;
+  job: ScrapeJobName;
+  trigger: ScrapeTrigger;
+  status: ScrapeRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  invalid_count: number;
+  retired_count: number;
+  failed_count: number;
+  items: ScrapeRunItem[];
+  warnings: DriftWarning[];
+  error: string | null;
+}
+
+/**
+ * Collects the per-item outcomes of a single scrape run. Instances are created
+ * by ScrapeRunsService.start() and persisted with ScrapeRunsService.finish().
+ */
+export class ScrapeRun {
+  readonly startedAt = new Date();
+  finishedAt: Date | null = null;
+  readonly items: ScrapeRunItem[] = [];
+  readonly warnings: DriftWarning[] = [];
+  error: string | null = null;
+  cancelled = false;
+
+  constructor(
+    public id: string | null,
+    readonly job: ScrapeJobName,
+    readonly trigger: ScrapeTrigger,
+  ) {}
+
+  inserted(key: string) {
+    this.items.push({ key, outcome: 'inserted' });
+  }
+
+  updated(key: string) {
+    this.items.push({ key, outcome: 'updated' });
+  }
+
+  skipped(key: string, reason: string) {
+    this.items.push({ key, outcome: 'skipped', reason });
+  }
+
+  /**
+   * Records a parsed record that was rejected by domain validation and not
+   * written.
+   */
+  invalid(key: string, errors: string[]) {
+    this.items.push({ key, outcome: 'invalid', reason: errors.join('; ') });
+  }
+
+  /**
+   * Records a stored record that is no longer present at the source and was
+   * marked as retired rather than deleted.
+   */
+  retired(key: string) {
+    this.items.push({ key, outcome: 'retired' });
+  }
+
+  failed(key: string, reason: string) {
+    this.items.push({ key, outcome: 'failed', reason });
+  }
+
+  /**
+   * Marks the whole run as failed, e.g. when the source page could not be
+   * fetched or the hero list could not be read.
+   */
+  fail(reason: string) {
+    this.error = reason;
+  }
+
+  /**
+   * Records a layout drift warning; the run finishes as `degraded`.
+   */
+  warn(warning: DriftWarning | null) {
+    if (warning) {
+      this.warnings.push(warning);
+    }
+  }
+
+  /**
+   * Marks the run as stopped early on request; items recorded so far are kept.
+   */
+  cancel() {
+    this.cancelled = true;
+  }
+
+  count(outcome: ScrapeItemOutcome): number {
+    return this.items.filter((item) => item.outcome === outcome).length;
+  }
+
+  get status(): ScrapeRunStatus {
+    if (!this.finishedAt) {
+      return 'running';
+    }
+    if (this.error) {
+      return 'failed';
+    }
+    if (this.cancelled) {
+      return 'cancelled';
+    }
+    if (this.warnings.length > 0) {
+      return 'degraded';
+    }
+    return this.count('failed') > 0 || this.count('invalid') > 0
+      ? 'partial'
+      : 'succeeded';
+  }
+
+  toResult(): ScrapeRunResult {
+    return {
+      id: this.id,
+      job: this.job,
+      trigger: this.trigger,
+      status: this.status,
+      started_at: this.startedAt.toISOString(),
+      finished_at: this.finishedAt?.toISOString() ?? null,
+      duration_ms: this.finishedAt
+        ? this.finishedAt.getTime() - this.startedAt.getTime()
+        : null,
+      inserted_count: this.count('inserted'),
+      updated_count: this.count('updated'),
+      skipped_count: this.count('skipped'),
+      invalid_count: this.count('invalid'),
+      retired_count: this.count('retired'),
+      failed_count: this.count('failed'),
+      items: this.items,
+      warnings: this.warnings,
+      error: this.error,
+    };
+  }
+}
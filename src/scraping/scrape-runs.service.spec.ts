@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { LayoutDriftService } from './layout-drift.service';
+
+describe('ScrapeRunsService', () => {
+  let service: ScrapeRunsService;
+  let result: { data: any; error: any };
+  const query: Record<string, jest.Mock> = {};
+  const layoutDriftService = { report: jest.fn() };
+
+  beforeEach(async () => {
+    result = { data: { id: 'run-1' }, error: null };
+    for (const method of [
+      'from',
+      'insert',
+      'update',
+      'select',
+      'single',
+      'eq',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) => resolve(result));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapeRunsService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+        { provide: LayoutDriftService, useValue: layoutDriftService },
+      ],
+    }).compile();
+
+    service = module.get<ScrapeRunsService>(ScrapeRunsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should record a run with per-item outcomes', async () => {
+    const run = await service.start('abilities', 'cron');
+    expect(run.id).toBe('run-1');
+    expect(query.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ job: 'abilities', status: 'running' }),
+    );
+
+    run.inserted('Hulk: Gamma Burst');
+    run.updated('Hulk: Heavy Blow');
+    run.skipped('Groot', 'No abilities extracted');
+    run.failed('Storm', 'timeout of 10000ms exceeded');
+
+    const finished = await service.finish(run);
+
+    expect(finished).toEqual(
+      expect.objectContaining({
+        id: 'run-1',
+        status: 'partial',
+        inserted_count: 1,
+        updated_count: 1,
+        skipped_count: 1,
+        failed_count: 1,
+      }),
+    );
+    expect(finished.items).toContainEqual({
+      key: 'Storm',
+      outcome: 'failed',
+      reason: 'timeout of 10000ms exceeded',
+    });
+    expect(query.update).toHaveBeenCalledWith(
+      expect.not.objectContaining({ id: expect.anything() }),
+    );
+    expect(query.eq).toHaveBeenCalledWith('id', 'run-1');
+  });
+
+  it('should count validation failures and finish as partial', async () => {
+    const run = await service.start('heroes', 'http');
+    run.inserted('Hulk');
+    run.invalid('Groot', ['type must be one of vanguard, duelist, strategist']);
+
+    const finished = await service.finish(run);
+
+    expect(finished.status).toBe('partial');
+    expect(finished.invalid_count).toBe(1);
+    expect(finished.items).toContainEqual({
+      key: 'Groot',
+      outcome: 'invalid',
+      reason: 'type must be one of vanguard, duelist, strategist',
+    });
+  });
+
+  it('should keep scraping when the run cannot be recorded', async () => {
+    result = { data: null, error: { message: 'relation does not exist' } };
+
+    const run = await service.start('news', 'http');
+    const finished = await service.finish(run);
+
+    expect(finished.id).toBeNull();
+    expect(finished.status).toBe('succeeded');
+    expect(query.update).not.toHaveBeenCalled();
+  });
+
+  it('should mark runs with drift warnings as degraded and report them', async () => {
+    const run = await service.start('heroes', 'cron');
+    run.updated('Hulk');
+    run.warn({
+      page_type: 'hero-list',
+      url: 'https://marvelrivals.fandom.com/wiki/Heroes',
+      check: 'previous-run-ratio',
+      message: 'Found 3 heroes, previous run had 33',
+      expected: 27,
+      actual: 3,
+    });
+
+    const finished = await service.finish(run);
+
+    expect(finished.status).toBe('degraded');
+    expect(layoutDriftService.report).toHaveBeenCalledWith(finished);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, toRange } from 'src/common/pagination';
+import {
+  ScrapeJobName,
+  ScrapeRun,
+  ScrapeRunResult,
+  ScrapeTrigger,
+} from './scrape-run';
+import { LayoutDriftService } from './layout-drift.service';
+
+export interface ListScrapeRunsQuery {
+  job?: ScrapeJobName;
+  page: number;
+  limit: number;
+}
+
+@Injectable()
+export class ScrapeRunsService {
+  private readonly logger = new Logger(ScrapeRunsService.name);
+
+  private readonly table = 'scrape_runs';
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly layoutDriftService: LayoutDriftService,
+  ) {}
+
+  /**
+   * Creates the run record up front so that runs which crash the process are
+   * still visible as `running`. A failure to record never blocks the scrape.
+   */
+  async start(job: ScrapeJobName, trigger: ScrapeTrigger): Promise<ScrapeRun> {
+    const run = new ScrapeRun(null, job, trigger);
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .insert(this.toRow(run))
+      .select('id')
+      .single();
+
+    if (error) {
+      this.logger.error(
+        `Error recording start of ${job} run: ${error.message}`,
+      );
+    } else {
+      run.id = data.id;
+    }
+
+    return run;
+  }
+
+  async finish(run: ScrapeRun): Promise<ScrapeRunResult> {
+    run.finishedAt = new Date();
+    const result = run.toResult();
+
+    this.logger.log(
+      `Run ${run.job} (${run.trigger}) finished with status ${result.status}: ` +
+        `${result.inserted_count} inserted, ${result.updated_count} updated, ` +
+        `${result.skipped_count} skipped, ${result.invalid_count} invalid, ` +
+        `${result.retired_count} retired, ${result.failed_count} failed ` +
+        `in ${result.duration_ms}ms.`,
+    );
+
+    await this.layoutDriftService.report(result);
+
+    if (!run.id) {
+      return result;
+    }
+
+    const { error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .update(this.toRow(run))
+      .eq('id', run.id);
+
+    if (error) {
+      this.logger.error(`Error recording ${run.job} run: ${error.message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns how many items the last healthy run of `job` wrote, as the
+   * baseline for drift ratio checks.
+   */
+  async findPreviousItemCount(job: ScrapeJobName): Promise<number | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .select('inserted_count, updated_count')
+      .eq('job', job)
+      .in('status', ['succeeded', 'partial'])
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Error fetching previous ${job} run: ${error.message}`);
+      return null;
+    }
+
+    return data ? data.inserted_count + data.updated_count : null;
+  }
+
+  async findAll(
+    query: ListScrapeRunsQuery,
+  ): Promise<PaginatedResponse<ScrapeRunResult>> {
+    const [from, to] = toRange(query.page, query.limit);
+
+    let request = this.supabaseService
+      .getClient()
+      .from(this.table)
+      .select('*', { count: 'exact' });
+
+    if (query.job) {
+      request = request.eq('job', query.job);
+    }
+
+    const { data, count, error } = await request
+      .order('started_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      this.logger.error(`Error fetching scrape runs: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch scrape runs');
+    }
+
+    return {
+      data: data ?? [],
+      page: query.page,
+      limit: query.limit,
+      total: count ?? 0,
+    };
+  }
+
+  async findOne(id: string): Promise<ScrapeRunResult> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from(this.table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Error fetching scrape run ${id}: ${error.message}`);
+      throw new InternalServerErrorException('Could not fetch scrape run');
+    }
+
+    if (!data) {
+      throw new NotFoundException(`Scrape run ${id} not found`);
+    }
+
+    return data;
+  }
+
+  private toRow(run: ScrapeRun) {
+    const row: Partial<ScrapeRunResult> = run.toResult();
+    delete row.id;
+    return row;
+  }
+}
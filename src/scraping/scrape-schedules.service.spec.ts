@@ -0,0 +1,126 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScrapeSchedulesService } from './scrape-schedules.service';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeJobName } from './scrape-run';
+
+describe('ScrapeSchedulesService', () => {
+  let service: ScrapeSchedulesService;
+  let registry: SchedulerRegistry;
+  // Every registry created, so no cron timer outlives the tests
+  let registries: SchedulerRegistry[];
+  let config: Record<string, string>;
+  const scrapeJobsService = {
+    enqueue: jest.fn((type: ScrapeJobName) => ({ id: `${type}-job` })),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScrapeSchedulesService,
+        SchedulerRegistry,
+        { provide: ScrapeJobsService, useValue: scrapeJobsService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    registry = module.get<SchedulerRegistry>(SchedulerRegistry);
+    registries.push(registry);
+    const created = module.get<ScrapeSchedulesService>(ScrapeSchedulesService);
+    created.onModuleInit();
+    return created;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    registries = [];
+    config = {
+      SCRAPE_NEWS_CRON: '0 */6 * * *',
+      SCRAPE_ABILITIES_ENABLED: 'false',
+    };
+    service = await createService();
+  });
+
+  afterEach(() => {
+    registries.forEach((created) =>
+      created.getCronJobs().forEach((cronJob) => cronJob.stop()),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should register the configured schedules', () => {
+    const schedules = service.findAll();
+
+    expect(schedules).toContainEqual(
+      expect.objectContaining({
+        job: 'news',
+        cron: '0 */6 * * *',
+        enabled: true,
+        next_run_at: expect.any(String),
+        last_run_at: null,
+      }),
+    );
+    expect(schedules).toContainEqual(
+      expect.objectContaining({
+        job: 'abilities',
+        enabled: false,
+        depends_on: ['heroes'],
+        next_run_at: null,
+      }),
+    );
+  });
+
+  it('should refuse to start with an invalid cron expression', async () => {
+    config.SCRAPE_LORE_CRON = 'every evening';
+
+    await expect(createService()).rejects.toThrow(/SCRAPE_LORE_CRON/);
+  });
+
+  it('should pause, resume and reschedule a job', () => {
+    expect(service.pause('news').enabled).toBe(false);
+    expect(service.reschedule('news', '30 4 * * *')).toEqual(
+      expect.objectContaining({ cron: '30 4 * * *', enabled: false }),
+    );
+    expect(service.resume('news').enabled).toBe(true);
+
+    expect(() => service.reschedule('news', 'soon')).toThrow(
+      BadRequestException,
+    );
+    expect(() => service.pause('patches' as ScrapeJobName)).toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should queue dependencies ahead of a scheduled job', () => {
+    registry.getCronJob('scrape-lore').fireOnTick();
+
+    expect(scrapeJobsService.enqueue.mock.calls).toEqual([
+      ['heroes', 'cron', {}, []],
+      ['lore', 'cron', {}, [{ id: 'heroes-job' }]],
+    ]);
+  });
+
+  it('should not queue dependencies whose schedule is paused', () => {
+    service.pause('heroes');
+
+    registry.getCronJob('scrape-lore').fireOnTick();
+
+    expect(scrapeJobsService.enqueue).toHaveBeenCalledTimes(1);
+    expect(scrapeJobsService.enqueue).toHaveBeenCalledWith(
+      'lore',
+      'cron',
+      {},
+      [],
+    );
+  });
+});
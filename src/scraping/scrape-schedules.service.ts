@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeJobName } from './scrape-run';
+import { NewsScrapeMode, ScrapeJobOptions, ScrapeJobView } from './scrape-job';
+
+interface ScrapeSchedule {
+  job: ScrapeJobName;
+  defaultCron: string;
+  // Jobs queued ahead of this one each time it fires
+  dependsOn: ScrapeJobName[];
+  options: ScrapeJobOptions;
+}
+
+export interface ScrapeScheduleView {
+  job: ScrapeJobName;
+  cron: string;
+  enabled: boolean;
+  depends_on: ScrapeJobName[];
+  next_run_at: string | null;
+  last_run_at: string | null;
+}
+
+const SCRAPE_SCHEDULES: ScrapeSchedule[] = [
+  {
+    job: 'news',
+    defaultCron: CronExpression.EVERY_DAY_AT_8PM,
+    dependsOn: [],
+    options: { mode: NewsScrapeMode.Incremental },
+  },
+  {
+    job: 'heroes',
+    defaultCron: CronExpression.EVERY_DAY_AT_8PM,
+    dependsOn: [],
+    options: {},
+  },
+  {
+    job: 'lore',
+    defaultCron: CronExpression.EVERY_DAY_AT_8PM,
+    dependsOn: ['heroes'],
+    options: {},
+  },
+  {
+    job: 'abilities',
+    defaultCron: CronExpression.EVERY_DAY_AT_8PM,
+    dependsOn: ['heroes'],
+    options: {},
+  },
+];
+
+/**
+ * Registers a cron job per scrape job with the scheduler registry. The
+ * expression comes from SCRAPE_<JOB>_CRON and a schedule starts paused when
+ * SCRAPE_<JOB>_ENABLED=false; an invalid expression stops the app from
+ * starting. When a schedule fires, the jobs it depends on are queued ahead of
+ * it, unless their own schedule is paused. Changes made at runtime are kept
+ * in memory only and reset to the configuration on restart.
+ */
+@Injectable()
+export class ScrapeSchedulesService implements OnModuleInit {
+  private readonly logger = new Logger(ScrapeSchedulesService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly scrapeJobsService: ScrapeJobsService,
+  ) {}
+
+  onModuleInit() {
+    for (const schedule of SCRAPE_SCHEDULES) {
+      const key = `SCRAPE_${schedule.job.toUpperCase()}`;
+      const cron = this.configService.get<string>(
+        `${key}_CRON`,
+        schedule.defaultCron,
+      );
+      const enabled =
+        String(this.configService.get(`${key}_ENABLED`, 'true')) !== 'false';
+
+      let cronJob: CronJob;
+      try {
+        cronJob = new CronJob(cron, () => this.fire(schedule.job));
+      } catch (error) {
+        throw new Error(`${key}_CRON "${cron}" is invalid: ${error.message}`);
+      }
+
+      this.schedulerRegistry.addCronJob(
+        this.cronJobName(schedule.job),
+        cronJob,
+      );
+      if (enabled) {
+        cronJob.start();
+      }
+      this.logger.log(
+        `Scheduled ${schedule.job} at "${cron}"${enabled ? '' : ' (paused)'}.`,
+      );
+    }
+  }
+
+  findAll(): ScrapeScheduleView[] {
+    return SCRAPE_SCHEDULES.map(({ job }) => this.toView(job));
+  }
+
+  pause(job: ScrapeJobName): ScrapeScheduleView {
+    this.getCronJob(job).stop();
+    this.logger.log(`Paused the ${job} schedule.`);
+    return this.toView(job);
+  }
+
+  resume(job: ScrapeJobName): ScrapeScheduleView {
+    this.getCronJob(job).start();
+    this.logger.log(`Resumed the ${job} schedule.`);
+    return this.toView(job);
+  }
+
+  reschedule(job: ScrapeJobName, cron: string): ScrapeScheduleView {
+    const cronJob = this.getCronJob(job);
+
+    let cronTime: CronTime;
+    try {
+      cronTime = new CronTime(cron);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid cron expression "${cron}": ${error.message}`,
+      );
+    }
+
+    // setTime() restarts the job only if it was running, so a paused
+    // schedule stays paused
+    cronJob.setTime(cronTime);
+    this.logger.log(`Rescheduled ${job} at "${cron}".`);
+    return this.toView(job);
+  }
+
+  private fire(job: ScrapeJobName) {
+    this.logger.log(`Schedule fired for ${job}.`);
+    this.enqueueWithDependencies(job);
+  }
+
+  private enqueueWithDependencies(job: ScrapeJobName): ScrapeJobView {
+    const schedule = this.getSchedule(job);
+    const dependencies = schedule.dependsOn
+      .filter((dependency) => this.getCronJob(dependency).running)
+      .map((dependency) => this.enqueueWithDependencies(dependency));
+
+    return this.scrapeJobsService.enqueue(
+      job,
+      'cron',
+      schedule.options,
+      dependencies,
+    );
+  }
+
+  private toView(job: ScrapeJobName): ScrapeScheduleView {
+    const cronJob = this.getCronJob(job);
+    return {
+      job,
+      cron: cronJob.cronTime.source.toString(),
+      enabled: cronJob.running,
+      depends_on: this.getSchedule(job).dependsOn,
+      next_run_at: cronJob.running ? cronJob.nextDate().toISO() : null,
+      last_run_at: cronJob.lastDate()?.toISOString() ?? null,
+    };
+  }
+
+  private getSchedule(job: ScrapeJobName): ScrapeSchedule {
+    const schedule = SCRAPE_SCHEDULES.find((schedule) => schedule.job === job);
+    if (!schedule) {
+      throw new NotFoundException(`No schedule for scrape job ${job}`);
+    }
+    return schedule;
+  }
+
+  private getCronJob(job: ScrapeJobName): CronJob {
+    this.getSchedule(job);
+    return this.schedulerRegistry.getCronJob(this.cronJobName(job));
+  }
+
+  private cronJobName(job: ScrapeJobName) {
+    return `scrape-${job}`;
+  }
+}
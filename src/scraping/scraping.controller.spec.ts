@@ -1,12 +1,35 @@
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ScrapingController } from './scraping.controller';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeSchedulesService } from './scrape-schedules.service';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { LayoutDriftService } from './layout-drift.service';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { RobotsService } from 'src/fetcher/robots.service';
+import { AuthService } from 'src/auth/auth.service';
+import { AuditService } from 'src/auth/audit.service';
+import { Principal, Role } from 'src/auth/principal';
 
 describe('ScrapingController', () => {
   let controller: ScrapingController;
+  const scrapeJobsService = { enqueue: jest.fn(() => ({ id: 'job-1' })) };
+  const auditService = { record: jest.fn() };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ScrapingController],
+      providers: [
+        { provide: ScrapeJobsService, useValue: scrapeJobsService },
+        { provide: ScrapeSchedulesService, useValue: {} },
+        { provide: ScrapeRunsService, useValue: {} },
+        { provide: FetcherService, useValue: {} },
+        { provide: RobotsService, useValue: {} },
+        { provide: LayoutDriftService, useValue: {} },
+        { provide: AuditService, useValue: auditService },
+        { provide: AuthService, useValue: {} },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
     }).compile();
 
     controller = module.get<ScrapingController>(ScrapingController);
@@ -15,4 +38,27 @@ describe('ScrapingController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should record who triggered a scrape', async () => {
+    const principal: Principal = {
+      name: 'ci',
+      role: Role.Admin,
+      method: 'api-key',
+    };
+
+    await expect(controller.scrapeHeroes(principal)).resolves.toEqual({
+      id: 'job-1',
+    });
+
+    expect(scrapeJobsService.enqueue).toHaveBeenCalledWith(
+      'heroes',
+      'http',
+      {},
+    );
+    expect(auditService.record).toHaveBeenCalledWith(
+      principal,
+      'trigger-heroes',
+      'job-1',
+    );
+  });
 });
@@ -1,27 +1,208 @@
-import { Controller, Get } from '@nestjs/common';
-import { ScrapingService } from './scraping.service';
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE } from 'src/common/pagination';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { RobotsService } from 'src/fetcher/robots.service';
+import { AuthGuard } from 'src/auth/auth.guard';
+import { RateLimitGuard } from 'src/auth/rate-limit.guard';
+import { AuthPrincipal, Roles } from 'src/auth/auth.decorators';
+import { AuditService } from 'src/auth/audit.service';
+import { Principal, Role } from 'src/auth/principal';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeSchedulesService } from './scrape-schedules.service';
+import { LayoutDriftService } from './layout-drift.service';
+import { ScrapeJobName } from './scrape-run';
+import { NewsScrapeMode, ScrapeJobOptions, ScrapeJobType } from './scrape-job';
 
+// Reading is open to both roles; everything that changes state is admin-only
 @Controller('scraping')
+@UseGuards(AuthGuard)
+@Roles(Role.Admin, Role.ReadOnly)
 export class ScrapingController {
-  constructor(private readonly scrapingService: ScrapingService) {}
+  constructor(
+    private readonly scrapeJobsService: ScrapeJobsService,
+    private readonly scrapeSchedulesService: ScrapeSchedulesService,
+    private readonly scrapeRunsService: ScrapeRunsService,
+    private readonly fetcherService: FetcherService,
+    private readonly robotsService: RobotsService,
+    private readonly layoutDriftService: LayoutDriftService,
+    private readonly auditService: AuditService,
+  ) {}
 
-  @Get('news')
-  async scrapeNews() {
-    return this.scrapingService.scrapeNews();
+  @Post('news')
+  @Roles(Role.Admin)
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  scrapeNews(
+    @AuthPrincipal() principal: Principal,
+    @Query(
+      'mode',
+      new DefaultValuePipe(NewsScrapeMode.Incremental),
+      new ParseEnumPipe(NewsScrapeMode),
+    )
+    mode: NewsScrapeMode,
+  ) {
+    return this.trigger(principal, 'news', { mode });
   }
 
-  @Get('heroes')
-  async scrapeHeroes() {
-    return this.scrapingService.scrapeHeroes();
+  @Post('heroes')
+  @Roles(Role.Admin)
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  scrapeHeroes(@AuthPrincipal() principal: Principal) {
+    return this.trigger(principal, 'heroes');
   }
 
-  @Get('lore')
-  async scrapeHeroLoreAndStats() {
-    return this.scrapingService.scrapeHeroLoreAndStats();
+  @Post('lore')
+  @Roles(Role.Admin)
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  scrapeHeroLoreAndStats(@AuthPrincipal() principal: Principal) {
+    return this.trigger(principal, 'lore');
   }
 
-  @Get('abilities')
-  async scrapeHeroAbilities() {
-    return this.scrapingService.scrapeHeroAbilities();
+  @Post('abilities')
+  @Roles(Role.Admin)
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  scrapeHeroAbilities(@AuthPrincipal() principal: Principal) {
+    return this.trigger(principal, 'abilities');
+  }
+
+  @Post('pipeline')
+  @Roles(Role.Admin)
+  @UseGuards(RateLimitGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  runPipeline(@AuthPrincipal() principal: Principal) {
+    return this.trigger(principal, 'pipeline');
+  }
+
+  @Get('jobs')
+  findJobs() {
+    return this.scrapeJobsService.findAll();
+  }
+
+  @Get('jobs/:id')
+  findJob(@Param('id') id: string) {
+    return this.scrapeJobsService.findOne(id);
+  }
+
+  @Delete('jobs/:id')
+  @Roles(Role.Admin)
+  async cancelJob(
+    @AuthPrincipal() principal: Principal,
+    @Param('id') id: string,
+  ) {
+    const job = this.scrapeJobsService.cancel(id);
+    await this.auditService.record(principal, 'cancel-job', id);
+    return job;
+  }
+
+  @Get('schedules')
+  findSchedules() {
+    return this.scrapeSchedulesService.findAll();
+  }
+
+  @Patch('schedules/:job')
+  @Roles(Role.Admin)
+  async reschedule(
+    @AuthPrincipal() principal: Principal,
+    @Param('job') job: ScrapeJobName,
+    @Body('cron') cron: string,
+  ) {
+    const schedule = this.scrapeSchedulesService.reschedule(job, cron);
+    await this.auditService.record(principal, 'reschedule', `${job} "${cron}"`);
+    return schedule;
+  }
+
+  @Post('schedules/:job/pause')
+  @Roles(Role.Admin)
+  @HttpCode(HttpStatus.OK)
+  async pauseSchedule(
+    @AuthPrincipal() principal: Principal,
+    @Param('job') job: ScrapeJobName,
+  ) {
+    const schedule = this.scrapeSchedulesService.pause(job);
+    await this.auditService.record(principal, 'pause-schedule', job);
+    return schedule;
+  }
+
+  @Post('schedules/:job/resume')
+  @Roles(Role.Admin)
+  @HttpCode(HttpStatus.OK)
+  async resumeSchedule(
+    @AuthPrincipal() principal: Principal,
+    @Param('job') job: ScrapeJobName,
+  ) {
+    const schedule = this.scrapeSchedulesService.resume(job);
+    await this.auditService.record(principal, 'resume-schedule', job);
+    return schedule;
+  }
+
+  @Get('runs')
+  async findRuns(
+    @Query('job') job: ScrapeJobName | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    return this.scrapeRunsService.findAll({ job, page, limit });
+  }
+
+  @Get('runs/:id')
+  async findRun(@Param('id') id: string) {
+    return this.scrapeRunsService.findOne(id);
+  }
+
+  @Get('metrics')
+  getFetchMetrics() {
+    return this.fetcherService.getMetrics();
+  }
+
+  @Get('robots')
+  getRobotsRules() {
+    return this.robotsService.getCachedRules();
+  }
+
+  @Get('drift')
+  getDriftReports() {
+    return this.layoutDriftService.getReports();
+  }
+
+  @Get('audit')
+  @Roles(Role.Admin)
+  async findAuditLog(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    return this.auditService.findAll(page, limit);
+  }
+
+  // Records the principal against the job it got back, which is the already
+  // active job when one of the same type is queued or running
+  private async trigger(
+    principal: Principal,
+    type: ScrapeJobType,
+    options: ScrapeJobOptions = {},
+  ) {
+    const job = this.scrapeJobsService.enqueue(type, 'http', options);
+    await this.auditService.record(principal, `trigger-${type}`, job.id);
+    return job;
   }
 }
@@ -2,9 +2,38 @@ import { Module } from '@nestjs/common';
 import { ScrapingController } from './scraping.controller';
 import { ScrapingService } from './scraping.service';
 import { SupabaseService } from 'src/supabase/supabase.service';
+import { FetcherModule } from 'src/fetcher/fetcher.module';
+import { HistoryModule } from 'src/history/history.module';
+import { PatchesModule } from 'src/patches/patches.module';
+import { GamesModule } from 'src/games/games.module';
+import { ParsersModule } from 'src/parsers/parsers.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { ImagesModule } from 'src/images/images.module';
+import { SearchModule } from 'src/search/search.module';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { ScrapeJobsService } from './scrape-jobs.service';
+import { ScrapeSchedulesService } from './scrape-schedules.service';
+import { LayoutDriftService } from './layout-drift.service';
 
 @Module({
+  imports: [
+    FetcherModule,
+    HistoryModule,
+    PatchesModule,
+    GamesModule,
+    ParsersModule,
+    AuthModule,
+    ImagesModule,
+    SearchModule,
+  ],
   controllers: [ScrapingController],
-  providers: [ScrapingService, SupabaseService],
+  providers: [
+    ScrapingService,
+    ScrapeRunsService,
+    ScrapeJobsService,
+    ScrapeSchedulesService,
+    LayoutDriftService,
+    SupabaseService,
+  ],
 })
 export class ScrapingModule {}
@@ -1,18 +1,456 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { ScrapingService } from './scraping.service';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { RobotsService } from 'src/fetcher/robots.service';
+import { HistoryService } from 'src/history/history.service';
+import { PatchesService } from 'src/patches/patches.service';
+import { GameSourcesService } from 'src/games/game-sources.service';
+import { ParserRegistry } from 'src/parsers/parser-registry.service';
+import { ImageMirrorService } from 'src/images/image-mirror.service';
+import { DEFAULT_GAME_SOURCES } from 'src/games/default-game-sources';
+import { ScrapeRun } from './scrape-run';
+import { NewsScrapeMode, NO_PROGRESS } from './scrape-job';
+import { RenderMode } from 'src/domain/game.model';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '../utils/__fixtures__', name), 'utf8');
+
+// Listings link to a second page; articles have a date segment in their URL
+const newsPage = async (url: string) => ({
+  data: fixture(
+    /\/\d{8}\//.test(url)
+      ? 'news-article.html'
+      : url.endsWith('index_2.html')
+        ? 'news-list-page-2.html'
+        : 'news-list.html',
+  ),
+});
 
 describe('ScrapingService', () => {
   let service: ScrapingService;
+  let responses: Array<{ data?: any; error: any }>;
+  const query: Record<string, jest.Mock> = {};
+  const fetcherService = { get: jest.fn() };
+  const historyService = {
+    recordAbilityStats: jest.fn(),
+    recordHeroStats: jest.fn(),
+  };
+  const patchesService = { ingest: jest.fn() };
+  const imageMirrorService = { mirror: jest.fn() };
+  let config: Record<string, string>;
 
-  beforeEach(async () => {
+  const createService = async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ScrapingService],
+      providers: [
+        ScrapingService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+        { provide: FetcherService, useValue: fetcherService },
+        { provide: RobotsService, useValue: { isAllowed: async () => true } },
+        {
+          provide: ScrapeRunsService,
+          useValue: {
+            start: async (job, trigger) => new ScrapeRun('run-1', job, trigger),
+            finish: async (run: ScrapeRun) => {
+              run.finishedAt = new Date();
+              return run.toResult();
+            },
+            findPreviousItemCount: async () => null,
+          },
+        },
+        { provide: HistoryService, useValue: historyService },
+        { provide: PatchesService, useValue: patchesService },
+        ParserRegistry,
+        { provide: ImageMirrorService, useValue: imageMirrorService },
+        {
+          provide: GameSourcesService,
+          useValue: {
+            findAll: () => DEFAULT_GAME_SOURCES,
+            findById: (id: string) =>
+              DEFAULT_GAME_SOURCES.find((game) => game.id === id) ?? null,
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback: unknown) => config[key] ?? fallback,
+          },
+        },
+      ],
     }).compile();
 
-    service = module.get<ScrapingService>(ScrapingService);
+    return module.get<ScrapingService>(ScrapingService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    responses = [];
+    for (const method of ['from', 'select', 'upsert', 'update', 'eq', 'in']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve(responses.shift() ?? { data: null, error: null }),
+    );
+
+    config = {};
+    service = await createService();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should store article bodies and skip unchanged articles', async () => {
+    fetcherService.get.mockImplementation(newsPage);
+    imageMirrorService.mirror.mockImplementation(async (url: string) => ({
+      image_url: 'https://cdn.example.com/abc.jpg',
+      original_image_url: url,
+      thumbnails: { 96: 'https://cdn.example.com/abc-96.webp' },
+    }));
+
+    const first = await service.scrapeNews();
+
+    expect(first.inserted_count).toBe(12);
+    const [row] = query.upsert.mock.calls[0];
+    expect(row).toEqual(
+      expect.objectContaining({
+        url: 'https://www.marvelrivals.com/news/20241210/41211_1199582.html',
+        published_at: new Date('2024-12-06T10:30:00.000Z'),
+        author: 'Marvel Rivals Dev Team',
+        created_at: expect.any(Date),
+        image_url: 'https://cdn.example.com/abc.jpg',
+        original_image_url: expect.stringMatching(/^https:\/\//),
+      }),
+    );
+    expect(row.body_markdown).toContain('## Hulk');
+
+    // Each listing is stored with its own type, so hashes differ per listing
+    const rows = query.upsert.mock.calls.map(([{ url, content_hash }]) => ({
+      url,
+      content_hash,
+    }));
+    query.upsert.mockClear();
+    // Per listing: the stored first page, nothing stored of the second page,
+    // and the upsert of its card
+    responses = [0, 4, 8].flatMap((start) => [
+      { data: rows.slice(start, start + 3), error: null },
+      { data: [], error: null },
+      { data: null, error: null },
+    ]);
+
+    // A backfill pages past the stored first page to the new second page
+    const second = await service.scrapeNews(
+      'http',
+      undefined,
+      NewsScrapeMode.Backfill,
+    );
+
+    expect(second.skipped_count).toBe(9 + 6);
+    expect(second.items).toContainEqual({
+      key: row.url,
+      outcome: 'skipped',
+      reason: 'Content unchanged',
+    });
+    expect(second.inserted_count).toBe(3);
+    expect(query.upsert).toHaveBeenCalledTimes(3);
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: 'https://www.marvelrivals.com/news/20241105/41211_1194021.html',
+      }),
+      { onConflict: 'url' },
+    );
+  });
+
+  it('should stop an incremental scrape at the first known article', async () => {
+    fetcherService.get.mockImplementation(newsPage);
+    const known = {
+      url: 'https://www.marvelrivals.com/news/20241201/41211_1198012.html',
+      content_hash: 'hash',
+    };
+    // Existing rows of each listing, each followed by the upsert of its first card
+    responses = [0, 1, 2].flatMap(() => [
+      { data: [known], error: null },
+      { data: null, error: null },
+    ]);
+
+    const result = await service.scrapeNews();
+
+    expect(result.inserted_count).toBe(3);
+    expect(result.items).not.toContainEqual(
+      expect.objectContaining({ key: known.url }),
+    );
+    expect(fetcherService.get).not.toHaveBeenCalledWith(
+      expect.stringContaining('index_2.html'),
+      expect.anything(),
+    );
+  });
+
+  it('should clear the content hash of an update whose patch notes fail', async () => {
+    fetcherService.get.mockImplementation(newsPage);
+    patchesService.ingest.mockRejectedValue(new Error('Parse failed'));
+
+    const result = await service.scrapeNews();
+
+    const [{ url }] = patchesService.ingest.mock.calls[0];
+    expect(result.items).toContainEqual({
+      key: `${url} (patch notes)`,
+      outcome: 'failed',
+      reason: 'Parse failed',
+    });
+    expect(query.update).toHaveBeenCalledWith({ content_hash: null });
+    expect(query.eq).toHaveBeenCalledWith('url', url);
+  });
+
+  it('should keep the stored date of a card without a readable date', async () => {
+    const undated = fixture('news-list-page-2.html').replace(
+      '<span class="time">2024/11/05</span>',
+      '',
+    );
+    // Article pages hold no article, so the card is all there is
+    fetcherService.get.mockImplementation(async (url: string) => ({
+      data: /\/\d{8}\//.test(url) ? '<html><body></body></html>' : undated,
+    }));
+    const url = 'https://www.marvelrivals.com/news/20241105/41211_1194021.html';
+
+    await service.scrapeNews();
+
+    const [first] = query.upsert.mock.calls[0];
+    expect(first).toEqual(
+      expect.objectContaining({ url, published_at: expect.any(Date) }),
+    );
+
+    query.upsert.mockClear();
+    responses = [
+      {
+        data: [
+          { url, content_hash: 'old', published_at: '2024-11-05T00:00:00Z' },
+        ],
+        error: null,
+      },
+    ];
+
+    const result = await service.scrapeNews();
+
+    const [second] = query.upsert.mock.calls[0];
+    expect(second.published_at).toEqual(new Date('2024-11-05T00:00:00Z'));
+    expect(result.invalid_count).toBe(0);
+  });
+
+  it('should key abilities by hero and slug and retire missing ones', async () => {
+    fetcherService.get.mockResolvedValue({
+      data: fixture('hero-skill-table.html'),
+    });
+    responses = [
+      // heroes
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            game_id: DEFAULT_GAME_SOURCES[0].id,
+          },
+        ],
+        error: null,
+      },
+      // stored abilities
+      {
+        data: [
+          { slug: 'wind-blade', name: 'Wind Blade', retired_at: null },
+          { slug: 'bolt-rush', name: 'Bolt Rush', retired_at: null },
+          { slug: 'goddess-boost', name: 'Goddess Boost', retired_at: '2024' },
+        ],
+        error: null,
+      },
+      // upsert
+      { data: null, error: null },
+      // retire
+      { data: null, error: null },
+    ];
+
+    const result = await service.scrapeHeroAbilities();
+
+    expect(fetcherService.get).toHaveBeenCalledWith(
+      'https://marvelrivals.fandom.com/wiki/Storm',
+      { render: RenderMode.Static },
+    );
+    expect(fetcherService.get).toHaveBeenCalledTimes(1);
+    expect(query.upsert).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        expect.objectContaining({
+          hero_id: 'hero-storm',
+          slug: 'wind-blade',
+          retired_at: null,
+          parser_version: 'marvel-rivals/abilities-skill-table@1',
+        }),
+      ]),
+      { onConflict: 'hero_id,slug' },
+    );
+    expect(query.update).toHaveBeenCalledWith({ retired_at: expect.any(Date) });
+    expect(query.in).toHaveBeenCalledWith('slug', ['bolt-rush']);
+    expect(result.status).toBe('succeeded');
+    expect(result.updated_count).toBe(1);
+    expect(result.inserted_count).toBe(3);
+    expect(result.retired_count).toBe(1);
+    expect(result.items).toContainEqual({
+      key: 'Storm: Bolt Rush',
+      outcome: 'retired',
+    });
+    expect(historyService.recordAbilityStats).toHaveBeenCalledWith(
+      'hero-storm',
+      'wind-blade',
+      'Wind Blade',
+      expect.any(Object),
+      'run-1',
+    );
+  });
+
+  it('should render a page headless when its static HTML parses to nothing', async () => {
+    config.HEADLESS_FALLBACK = 'true';
+    service = await createService();
+    const heroPage = fixture('hero-skill-table.html');
+    fetcherService.get.mockImplementation(async (_url, { render }) => ({
+      data: render === RenderMode.Headless ? heroPage : '<html></html>',
+    }));
+    responses = [
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            game_id: DEFAULT_GAME_SOURCES[0].id,
+          },
+        ],
+        error: null,
+      },
+    ];
+
+    const result = await service.scrapeHeroAbilities();
+
+    expect(fetcherService.get).toHaveBeenCalledWith(
+      'https://marvelrivals.fandom.com/wiki/Storm',
+      { render: RenderMode.Headless },
+    );
+    expect(result.inserted_count).toBe(4);
+  });
+
+  it('should not render a page headless unless the fallback is enabled', async () => {
+    fetcherService.get.mockResolvedValue({ data: '<html></html>' });
+    responses = [
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            game_id: DEFAULT_GAME_SOURCES[0].id,
+          },
+        ],
+        error: null,
+      },
+    ];
+
+    await service.scrapeHeroAbilities();
+
+    expect(fetcherService.get).toHaveBeenCalledTimes(1);
+    expect(fetcherService.get).not.toHaveBeenCalledWith(expect.anything(), {
+      render: RenderMode.Headless,
+    });
+  });
+
+  it('should fetch each hero page once for lore and abilities', async () => {
+    fetcherService.get.mockImplementation(async (url: string) => ({
+      data: fixture(
+        url.endsWith('/Heroes') ? 'heroes-list.html' : 'hero-skill-table.html',
+      ),
+    }));
+    responses = [
+      // stored heroes; the fixture lists too few heroes to be written
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            game_id: DEFAULT_GAME_SOURCES[0].id,
+          },
+        ],
+        error: null,
+      },
+    ];
+
+    const [heroes, lore, abilities] = await service.scrapeHeroPipeline();
+
+    expect(heroes.job).toBe('heroes');
+    expect(heroes.status).toBe('degraded');
+    expect(
+      fetcherService.get.mock.calls.filter(([url]) => url.endsWith('/Storm')),
+    ).toHaveLength(1);
+    expect(lore).toEqual(
+      expect.objectContaining({ job: 'lore', updated_count: 1 }),
+    );
+    expect(query.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lore: expect.stringContaining('Ororo Munroe'),
+        lore_details: expect.objectContaining({
+          real_name: 'Ororo Munroe',
+          affiliations: ['X-Men', 'Avengers'],
+        }),
+        stats: expect.objectContaining({
+          health: 250,
+          movement_speed: 6,
+          team_up_anchors: ['Thor'],
+        }),
+      }),
+    );
+    expect(abilities).toEqual(
+      expect.objectContaining({ job: 'abilities', inserted_count: 4 }),
+    );
+  });
+
+  it('should record an unreadable infobox value against its hero only', async () => {
+    fetcherService.get.mockResolvedValue({
+      data: fixture('hero-skill-table.html').replace(
+        '<div class="pi-data-value pi-font">250</div>',
+        '<div class="pi-data-value pi-font">unknown</div>',
+      ),
+    });
+    responses = [
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            game_id: DEFAULT_GAME_SOURCES[0].id,
+          },
+        ],
+        error: null,
+      },
+    ];
+
+    const lore = await service.scrapeHeroLoreAndStats();
+
+    expect(lore.status).toBe('partial');
+    expect(lore.warnings).toEqual([]);
+    expect(lore.items).toContainEqual(
+      expect.objectContaining({ key: 'Storm: health', outcome: 'invalid' }),
+    );
+    expect(query.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stats: expect.objectContaining({ health: null, movement_speed: 6 }),
+      }),
+    );
+  });
+
+  it('should not scrape hero pages after a cancelled hero discovery', async () => {
+    const stages = await service.scrapeHeroPipeline('http', {
+      ...NO_PROGRESS,
+      cancelled: true,
+    });
+
+    expect(stages).toHaveLength(1);
+    expect(stages[0].status).toBe('cancelled');
+    expect(fetcherService.get).not.toHaveBeenCalled();
+  });
 });
@@ -1,491 +1,1444 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SupabaseService } from 'src/supabase/supabase.service';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-import { Cron } from '@nestjs/schedule';
-import robotsParser from 'robots-parser';
-import { ScrapingUtils } from 'src/utils/scraping.utils';
-import { CronExpression } from '@nestjs/schedule';
+import { FetcherService } from 'src/fetcher/fetcher.service';
+import { RobotsService } from 'src/fetcher/robots.service';
+import { HistoryService } from 'src/history/history.service';
+import { PatchesService } from 'src/patches/patches.service';
+import { GameSourcesService } from 'src/games/game-sources.service';
+import { GameSource, NewsSource, RenderMode } from 'src/domain/game.model';
+import { ParserRegistry } from 'src/parsers/parser-registry.service';
+import { DEFAULT_INFOBOX_FIELDS } from 'src/games/default-infobox-fields';
+import {
+  ImageMirrorService,
+  MirroredImage,
+} from 'src/images/image-mirror.service';
+import {
+  loadParserPage,
+  ParserOutputs,
+  ParserPageType,
+  parserVersion,
+} from 'src/parsers/parser-plugin';
+import {
+  HeroStatsExtraction,
+  ParsedHero,
+  ParsedNewsItem,
+  ScrapingUtils,
+} from 'src/utils/scraping.utils';
+import {
+  emptyHeroStats,
+  Hero,
+  HeroLore,
+  HeroStats,
+  HeroType,
+  splitHeroProfile,
+  validateHero,
+  validateHeroLore,
+  validateHeroStats,
+} from 'src/domain/hero.model';
+import { Ability, validateAbility } from 'src/domain/ability.model';
+import {
+  NewsItem,
+  newsContentHash,
+  NewsType,
+  validateNewsItem,
+} from 'src/domain/news.model';
+import { ScrapeRunsService } from './scrape-runs.service';
+import { ScrapeRun, ScrapeRunResult, ScrapeTrigger } from './scrape-run';
+import { NewsScrapeMode, NO_PROGRESS, ScrapeProgress } from './scrape-job';
+import {
+  checkMinimumCount,
+  checkPageHealth,
+  checkPreviousRunRatio,
+  DriftWarning,
+  MIN_ABILITIES_PER_HERO,
+} from './page-health';
+
+interface HeroListPage {
+  game: GameSource;
+  url: string;
+  heroes: ParsedHero[];
+  parserVersion: string;
+}
+
+// The columns of a stored hero the lore and abilities scrapers need
+interface StoredHero {
+  id: string;
+  name: string;
+  game_id: string;
+}
+
+// The columns of a stored news row the news scraper compares against
+interface StoredNews {
+  content_hash: string | null;
+  published_at: string;
+}
+
+interface ParsedPage<P extends ParserPageType> {
+  result: ParserOutputs[P];
+  parserVersion: string;
+}
+
+// What the lore scraper reads from a hero page, parsed once per fetch
+interface HeroLorePage {
+  // The parsed profile text with the infobox facts filled in
+  lore: HeroLore | null;
+  infoboxWarnings: DriftWarning[];
+  // null when the infobox failed its health checks
+  infobox: HeroStatsExtraction | null;
+}
+
+// What the abilities scraper reads from a hero page, parsed once per fetch
+interface HeroAbilitiesPage {
+  abilities: ParsedPage<'hero-abilities'> | null;
+  healthWarnings: DriftWarning[];
+}
+
+// Whether a hero page had any profile to store
+function hasLore(lore: HeroLore | undefined): boolean {
+  return Boolean(
+    lore &&
+      (lore.biography.length > 0 ||
+        lore.quotes.length > 0 ||
+        lore.affiliations.length > 0 ||
+        lore.real_name ||
+        lore.first_appearance ||
+        lore.voice_actor ||
+        lore.release_season),
+  );
+}
 
 @Injectable()
 export class ScrapingService {
   private readonly logger = new Logger(ScrapingService.name);
 
-  private readonly newsUrls = [
-    { url: 'https://marvelrivals.com/news/', type: 'announcement' },
-    { url: 'https://marvelrivals.com/gameupdate/', type: 'update' },
-    { url: 'https://marvelrivals.com/devdiaries/', type: 'dev_diary' },
-  ];
-
-  private readonly heroesUrl = 'https://marvelrivals.fandom.com/wiki/Heroes';
+  // Listing pages read per news type and run
+  private readonly newsIncrementalMaxPages: number;
+  private readonly newsBackfillMaxPages: number;
+  // Whether pages that parse to nothing are retried in a headless browser.
+  // Off by default, as it runs a browser on any page that fails to parse;
+  // sources known to need one are configured to render headless instead.
+  private readonly headlessFallback: boolean;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly fetcherService: FetcherService,
+    private readonly robotsService: RobotsService,
+    private readonly scrapeRunsService: ScrapeRunsService,
+    private readonly historyService: HistoryService,
+    private readonly patchesService: PatchesService,
+    private readonly configService: ConfigService,
+    private readonly gameSourcesService: GameSourcesService,
+    private readonly parserRegistry: ParserRegistry,
+    private readonly imageMirrorService: ImageMirrorService,
+  ) {
+    this.newsIncrementalMaxPages = Number(
+      this.configService.get('NEWS_INCREMENTAL_MAX_PAGES', 3),
+    );
+    this.newsBackfillMaxPages = Number(
+      this.configService.get('NEWS_BACKFILL_MAX_PAGES', 50),
+    );
+    this.headlessFallback =
+      String(this.configService.get('HEADLESS_FALLBACK', 'false')) === 'true';
+  }
 
-  private readonly marvelRivalsGameId = 'acbbf41e-1049-4adf-8b86-4033a324d404';
+  private gameIds(): string[] {
+    return this.gameSourcesService.findAll().map((game) => game.id);
+  }
 
-  constructor(private readonly supabaseService: SupabaseService) {}
+  private getWikiRenderMode(hero: { game_id: string }): RenderMode {
+    return (
+      this.gameSourcesService.findById(hero.game_id)?.wiki_render ??
+      RenderMode.Static
+    );
+  }
 
-  @Cron(CronExpression.EVERY_DAY_AT_8PM)
-  async scrapeHeroAbilitiesCron() {
-    await this.scrapeHeroAbilities();
+  private getHeroPageUrl(hero: { name: string; game_id: string }) {
+    const game = this.gameSourcesService.findById(hero.game_id);
+    return game?.wiki_base_url
+      ? ScrapingUtils.getHeroPageUrl(game.wiki_base_url, hero.name)
+      : null;
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_8PM)
-  async scrapeHeroLoreAndStatsCron() {
-    await this.scrapeHeroLoreAndStats();
+  private async canScrape(url: string): Promise<boolean> {
+    return this.robotsService.isAllowed(url);
   }
 
-  @Cron(CronExpression.EVERY_DAY_AT_8PM)
-  async scrapeNewsCron() {
-    await this.scrapeNews();
+  /**
+   * Returns the image columns of the given heroes that already exist for the
+   * game, keyed by name. Upserts are reported as inserts or updates in the
+   * run history accordingly, and images mirrored before are not fetched
+   * again.
+   */
+  private async findExistingHeroes(
+    gameId: string,
+    names: string[],
+  ): Promise<Map<string, Partial<MirroredImage>>> {
+    if (names.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .select('name, image_url, original_image_url, thumbnails')
+      .eq('game_id', gameId)
+      .in('name', names);
+
+    if (error) {
+      throw new Error(`Error reading existing hero rows: ${error.message}`);
+    }
+
+    return new Map((data ?? []).map(({ name, ...image }) => [name, image]));
   }
 
-  private async canScrape(
+  /**
+   * Mirrors a scraped image. When mirroring is disabled or fails, the row
+   * keeps pointing at the scraped URL.
+   */
+  private async mirrorImage(
     url: string,
-    userAgent: string = '*',
-  ): Promise<boolean> {
+    previous?: Partial<MirroredImage>,
+  ): Promise<Pick<Hero, 'image_url' | 'original_image_url' | 'thumbnails'>> {
     try {
-      const robotsUrl = new URL('/robots.txt', url).href;
-      const { data } = await axios.get(robotsUrl);
-      const robots = robotsParser(robotsUrl, data);
-      return robots.isAllowed(url, userAgent);
+      const mirrored = await this.imageMirrorService.mirror(url, previous);
+      if (mirrored) {
+        return mirrored;
+      }
     } catch (error) {
-      this.logger.warn(
-        `Could not fetch robots.txt: ${error.message}. Proceeding with caution.`,
+      this.logger.warn(`Could not mirror image ${url}: ${error.message}`);
+    }
+    return { image_url: url, original_image_url: url, thumbnails: null };
+  }
+
+  /**
+   * Returns the stored abilities of a hero keyed by slug, including retired
+   * ones so that reappearing abilities are reported as updates.
+   */
+  private async findHeroAbilities(
+    heroId: string,
+  ): Promise<Map<string, { name: string; retired_at: string | null }>> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_abilities')
+      .select('slug, name, retired_at')
+      .eq('hero_id', heroId);
+
+    if (error) {
+      throw new Error(`Error reading existing abilities: ${error.message}`);
+    }
+
+    return new Map((data ?? []).map((row) => [row.slug, row]));
+  }
+
+  /**
+   * Marks stored abilities that are no longer on the hero's page as retired.
+   * Rows are kept so history and links from other data stay valid.
+   */
+  private async retireMissingAbilities(
+    hero: { id: string; name: string },
+    presentSlugs: Set<string>,
+    existingAbilities: Map<string, { name: string; retired_at: string | null }>,
+    run: ScrapeRun,
+  ) {
+    const missing = [...existingAbilities.entries()].filter(
+      ([slug, ability]) => !ability.retired_at && !presentSlugs.has(slug),
+    );
+    if (missing.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_abilities')
+      .update({ retired_at: new Date() })
+      .eq('hero_id', hero.id)
+      .in(
+        'slug',
+        missing.map(([slug]) => slug),
       );
-      return true;
+
+    for (const [, ability] of missing) {
+      const key = `${hero.name}: ${ability.name}`;
+      if (error) {
+        run.failed(key, `Could not retire ability: ${error.message}`);
+      } else {
+        this.logger.log(`Retired ability ${key}.`);
+        run.retired(key);
+      }
     }
   }
 
-  async scrapeNews(): Promise<void> {
-    for (const news of this.newsUrls) {
-      const { url, type } = news;
-      try {
-        this.logger.log(`Starting to scrape ${type} from ${url}`);
+  /**
+   * Returns the stored rows per news URL; rows that predate content hashing
+   * have a null hash and are always rewritten.
+   */
+  private async findStoredNews(
+    urls: string[],
+  ): Promise<Map<string, StoredNews>> {
+    if (urls.length === 0) {
+      return new Map();
+    }
 
-        const canScrape = await this.canScrape(url);
-        if (!canScrape) {
-          this.logger.warn(`Scraping is not allowed for ${url}. Skipping...`);
-          continue;
-        }
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('news')
+      .select('url, content_hash, published_at')
+      .in('url', urls);
 
-        const { data } = await axios.get(url, {
-          headers: {
-            'User-Agent':
-              'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36',
-          },
-        });
-        this.logger.log(`Fetched data from ${url}`);
-        const $ = cheerio.load(data);
+    if (error) {
+      throw new Error(`Error reading existing news rows: ${error.message}`);
+    }
 
-        const newsItems = $('a.list-item');
+    return new Map(
+      (data ?? []).map(({ url, ...stored }) => [url, stored as StoredNews]),
+    );
+  }
 
-        if (newsItems.length === 0) {
-          this.logger.warn(`No news items found on ${url}.`);
-          continue;
-        }
-        this.logger.log(`Found ${newsItems.length} news items on ${url}.`);
+  /**
+   * Follows a news card to its article page.
+   * @returns null when robots.txt disallows the article or no body is found;
+   * the card data is stored without a body in that case.
+   */
+  private async fetchNewsArticle(
+    game: GameSource,
+    item: ParsedNewsItem,
+    render: RenderMode,
+  ): Promise<ParsedPage<'news-article'> | null> {
+    if (!(await this.canScrape(item.url))) {
+      this.logger.warn(`Scraping is not allowed for ${item.url}. Skipping...`);
+      return null;
+    }
 
-        for (const element of newsItems.toArray()) {
-          const anchor = $(element);
+    const { result: parsed } = await this.fetchPage(
+      item.url,
+      render,
+      (html) => this.parsePage(game, 'news-article', item.url, html),
+      (parsed) => !parsed?.result,
+    );
+    return parsed?.result ? parsed : null;
+  }
 
-          const link = anchor.attr('href')?.trim();
-          if (!link) {
-            this.logger.warn('No link found for a news item. Skipping...');
-            continue;
-          }
+  /**
+   * Fetches a page in the given render mode and parses it. When a static
+   * page parses to nothing, it is rendered once more in a headless browser
+   * (with HEADLESS_FALLBACK=true), for content filled in by JavaScript. A
+   * failed fallback keeps the static result.
+   * @returns The HTML that was parsed and what `parse` made of it.
+   */
+  private async fetchPage<T>(
+    url: string,
+    render: RenderMode,
+    parse: (html: string) => T,
+    isEmpty: (result: T) => boolean,
+  ): Promise<{ html: string; result: T }> {
+    const { data } = await this.fetcherService.get(url, { render });
+    const result = parse(data);
+    if (
+      render !== RenderMode.Static ||
+      !this.headlessFallback ||
+      !isEmpty(result)
+    ) {
+      return { html: data, result };
+    }
 
-          const imageUrl =
-            anchor.find('div.img img').attr('src')?.trim() || null;
+    this.logger.warn(
+      `Nothing parsed from ${url}; retrying in a headless browser.`,
+    );
+    try {
+      const { data: rendered } = await this.fetcherService.get(url, {
+        render: RenderMode.Headless,
+      });
+      return { html: rendered, result: parse(rendered) };
+    } catch (error) {
+      this.logger.error(
+        `Headless fallback for ${url} failed: ${error.message}`,
+      );
+      return { html: data, result };
+    }
+  }
 
-          const title = anchor.find('div.text h2').text().trim();
-          if (!title) {
-            this.logger.warn(
-              `No title found for news item with link ${link}. Skipping...`,
-            );
-            continue;
-          }
+  /**
+   * Reads a page with the best matching plugin of the game's parser set.
+   * @returns null when no plugin recognizes the page's layout.
+   */
+  private parsePage<P extends ParserPageType>(
+    game: GameSource,
+    pageType: P,
+    url: string,
+    html: string,
+  ): ParsedPage<P> | null {
+    const page = loadParserPage(url, html);
+    const plugin = this.parserRegistry.resolve(game.parser_set, pageType, page);
+    if (!plugin) {
+      this.logger.warn(
+        `No ${game.parser_set} ${pageType} parser recognizes ${url}.`,
+      );
+      return null;
+    }
 
-          const description = anchor.find('div.text p').text().trim() || null;
-
-          const publishedAt = new Date();
-          const createdAt = new Date();
-          const updatedAt = new Date();
-
-          // Upsert the data to avoid duplicates
-          const { data: upsertData, error } = await this.supabaseService
-            .getClient()
-            .from('news')
-            .upsert(
-              {
-                title,
-                content: description,
-                published_at: publishedAt,
-                created_at: createdAt,
-                updated_at: updatedAt,
-                game_id: this.marvelRivalsGameId,
-                image_url: imageUrl,
-                type: type, // Use dynamic type
-                url: link,
-              },
-              { onConflict: 'url' },
-            );
+    return {
+      result: plugin.extract(page, this.logger),
+      parserVersion: parserVersion(plugin),
+    };
+  }
 
-          if (error) {
-            this.logger.error(`Error upserting ${type}: ${error.message}`);
-            continue;
-          }
+  /**
+   * Parses a stored game update into structured patch entries. A failure is
+   * recorded against the article without undoing the stored news row, but
+   * clears its content hash so the next run parses the article again.
+   */
+  private async ingestPatchNotes(newsItem: NewsItem, run: ScrapeRun) {
+    try {
+      await this.patchesService.ingest({
+        game_id: newsItem.game_id,
+        url: newsItem.url,
+        title: newsItem.title,
+        published_at: newsItem.published_at,
+        body_html: newsItem.body_html,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to parse patch notes from ${newsItem.url}: ${error.message}`,
+      );
+      run.failed(`${newsItem.url} (patch notes)`, error.message);
 
-          if (upsertData) {
-            this.logger.log(`Upserted ${type}: ${JSON.stringify(upsertData)}`);
-          }
-        }
+      const { error: resetError } = await this.supabaseService
+        .getClient()
+        .from('news')
+        .update({ content_hash: null })
+        .eq('url', newsItem.url);
 
+      if (resetError) {
+        this.logger.error(
+          `Error clearing the content hash of ${newsItem.url}: ${resetError.message}`,
+        );
+      }
+    }
+  }
+
+  async scrapeNews(
+    trigger: ScrapeTrigger = 'http',
+    progress: ScrapeProgress = NO_PROGRESS,
+    mode: NewsScrapeMode = NewsScrapeMode.Incremental,
+  ): Promise<ScrapeRunResult> {
+    const run = await this.scrapeRunsService.start('news', trigger);
+    const listings = this.gameSourcesService
+      .findAll()
+      .flatMap((game) => game.news_sources.map((source) => ({ game, source })));
+    progress.setTotal(listings.length);
+
+    for (const { game, source } of listings) {
+      const { url, type } = source;
+      if (progress.cancelled) {
+        run.cancel();
+        break;
+      }
+
+      try {
+        this.logger.log(
+          `Starting to scrape ${game.name} ${type} from ${url} (${mode})`,
+        );
+        await this.scrapeNewsListing(game, source, mode, run, progress);
         this.logger.log(`Scraping ${type} from ${url} completed successfully.`);
       } catch (error) {
         this.logger.error(
           `Failed to scrape ${type} from ${url}: ${error.message}`,
         );
+        run.failed(url, error.message);
+      } finally {
+        progress.advance();
       }
     }
-  }
 
-  async scrapeHeroes(): Promise<void> {
-    try {
-      this.logger.log(`Starting to scrape heroes from ${this.heroesUrl}`);
+    return this.scrapeRunsService.finish(run);
+  }
 
-      const canScrape = await this.canScrape(this.heroesUrl);
-      if (!canScrape) {
-        this.logger.warn(
-          `Scraping is not allowed for ${this.heroesUrl}. Skipping...`,
+  /**
+   * Walks the pages of one news listing, following its "next" links until
+   * the listing ends, an incremental run reaches a stored article, or the
+   * page limit for the mode is reached.
+   */
+  private async scrapeNewsListing(
+    game: GameSource,
+    { url: listingUrl, type, render = RenderMode.Static }: NewsSource,
+    mode: NewsScrapeMode,
+    run: ScrapeRun,
+    progress: ScrapeProgress,
+  ) {
+    const maxPages =
+      mode === NewsScrapeMode.Backfill
+        ? this.newsBackfillMaxPages
+        : this.newsIncrementalMaxPages;
+    const visited = new Set<string>();
+    let pageUrl = listingUrl;
+
+    for (let page = 1; pageUrl; page++) {
+      if (page > maxPages) {
+        this.logger.log(
+          `Stopped paging ${listingUrl} after ${maxPages} pages (${mode}).`,
         );
         return;
       }
+      if (progress.cancelled) {
+        return;
+      }
+      visited.add(pageUrl);
 
-      const { data } = await axios.get(this.heroesUrl, {
-        headers: {
-          'User-Agent':
-            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36',
-        },
-      });
-
-      this.logger.log('Fetched data successfully.');
-
-      this.logger.debug(`Fetched HTML snippet: ${data.substring(0, 1000)}`);
-
-      const $ = cheerio.load(data);
-
-      const heroes: {
-        name: string;
-        image_url: string;
-        type: string;
-        created_at: Date;
-        game_id: string;
-      }[] = [];
+      const canScrape = await this.canScrape(pageUrl);
+      if (!canScrape) {
+        this.logger.warn(`Scraping is not allowed for ${pageUrl}. Skipping...`);
+        run.skipped(pageUrl, 'Disallowed by robots.txt');
+        return;
+      }
 
-      const mrMainDivs = $('div#mr-main');
-      this.logger.log(`Found ${mrMainDivs.length} div#mr-main elements.`);
+      const {
+        result: { healthWarnings, parsed },
+      } = await this.fetchPage(
+        pageUrl,
+        render,
+        (html) => ({
+          healthWarnings: checkPageHealth('news-list', pageUrl, html),
+          parsed: this.parsePage(game, 'news-list', pageUrl, html),
+        }),
+        ({ healthWarnings, parsed }) =>
+          healthWarnings.length > 0 || !parsed?.result.items.length,
+      );
+      this.logger.log(`Fetched data from ${pageUrl}`);
+      if (healthWarnings.length > 0) {
+        healthWarnings.forEach((warning) => run.warn(warning));
+        run.skipped(pageUrl, 'Page failed layout health checks');
+        return;
+      }
 
-      if (mrMainDivs.length === 0) {
-        this.logger.warn('No div#mr-main elements found on the page.');
+      if (!parsed) {
+        run.skipped(pageUrl, 'No parser matches the page layout');
         return;
       }
+      const { items, skipped, nextPageUrl } = parsed.result;
+      skipped.forEach((item) => run.skipped(item.key, item.reason));
+
+      const storedNews = await this.findStoredNews(
+        items.map((item) => item.url),
+      );
 
-      mrMainDivs.each((i, mrMainDiv) => {
-        const section = $(mrMainDiv);
-
-        const heroType = section
-          .find('h3 .mw-headline')
-          .first()
-          .text()
-          .trim()
-          .toLowerCase();
-        if (!heroType) {
-          this.logger.warn(
-            `No hero_type found in div#mr-main index ${i}. Skipping...`,
+      for (const item of items) {
+        if (progress.cancelled) {
+          return;
+        }
+
+        if (mode === NewsScrapeMode.Incremental && storedNews.has(item.url)) {
+          this.logger.log(
+            `Reached known ${type} ${item.url}; stopping incremental scrape of ${listingUrl}.`,
           );
           return;
         }
 
-        this.logger.log(
-          `Processing hero type: ${heroType} in div#mr-main index ${i}.`,
+        await this.scrapeNewsItem(
+          game,
+          item,
+          type,
+          render,
+          parsed.parserVersion,
+          storedNews,
+          run,
         );
+      }
 
-        const galleryWrappers = section.find(
-          'div.gallery-image-wrapper.accent',
-        );
-        this.logger.log(
-          `Found ${galleryWrappers.length} heroes in hero type ${heroType}.`,
-        );
+      pageUrl = nextPageUrl && !visited.has(nextPageUrl) ? nextPageUrl : null;
+    }
+  }
 
-        galleryWrappers.each((j, wrapper) => {
-          const wrapperDiv = $(wrapper);
+  private async scrapeNewsItem(
+    game: GameSource,
+    item: ParsedNewsItem,
+    type: NewsType,
+    render: RenderMode,
+    // Recorded on the row when the article page could not be parsed
+    listParserVersion: string,
+    storedNews: Map<string, StoredNews>,
+    run: ScrapeRun,
+  ) {
+    const link = item.url;
+
+    let parsedArticle: ParsedPage<'news-article'> | null = null;
+    try {
+      parsedArticle = await this.fetchNewsArticle(game, item, render);
+    } catch (error) {
+      this.logger.error(`Failed to fetch article ${link}: ${error.message}`);
+      run.failed(link, error.message);
+      return;
+    }
 
-          const heroId = wrapperDiv.attr('id')?.trim();
-          if (!heroId) {
-            this.logger.warn(
-              `No hero ID found for hero in hero type ${heroType}, index ${j}. Skipping...`,
-            );
-            return;
-          }
+    const article = parsedArticle?.result ?? null;
+    const stored = storedNews.get(link);
+    const now = new Date();
+    const newsItem: NewsItem = {
+      title: item.title,
+      content: item.content,
+      body_html: article?.body_html || null,
+      body_markdown: article?.body_markdown || null,
+      author: article?.author ?? null,
+      images: article?.images ?? [],
+      // Cards without a readable date keep the date they were first stored
+      // with, so the content hash stays stable
+      published_at:
+        article?.published_at ??
+        item.published_at ??
+        (stored ? new Date(stored.published_at) : now),
+      created_at: now,
+      updated_at: now,
+      game_id: game.id,
+      image_url: item.image_url,
+      original_image_url: item.image_url,
+      thumbnails: null,
+      type: type, // Use dynamic type
+      url: link,
+      content_hash: null,
+      parser_version: parsedArticle?.parserVersion ?? listParserVersion,
+    };
+    newsItem.content_hash = newsContentHash(newsItem);
+
+    const validationErrors = validateNewsItem(newsItem);
+    if (validationErrors.length > 0) {
+      this.logger.warn(
+        `Rejected ${type} ${link}: ${validationErrors.join('; ')}`,
+      );
+      run.invalid(link, validationErrors);
+      return;
+    }
 
-          const img = wrapperDiv.find('img.thumbimage').first();
-          const imageUrl = img.attr('data-src')?.trim();
-          const titleAttr = img.attr('title')?.trim();
+    const exists = !!stored;
+    if (exists && stored.content_hash === newsItem.content_hash) {
+      // Leave the row alone so updated_at reflects real edits only
+      run.skipped(link, 'Content unchanged');
+      return;
+    }
 
-          if (!imageUrl) {
-            this.logger.warn(
-              `No image URL found for hero ID ${heroId}. Skipping...`,
-            );
-            return;
-          }
+    if (newsItem.original_image_url) {
+      Object.assign(
+        newsItem,
+        await this.mirrorImage(newsItem.original_image_url),
+      );
+    }
 
-          if (!titleAttr) {
-            this.logger.warn(
-              `No title attribute found for hero ID ${heroId}. Skipping...`,
-            );
-            return;
-          }
+    const row: Partial<NewsItem> = { ...newsItem };
+    if (exists) {
+      delete row.created_at;
+    }
 
-          const nameMatch = titleAttr.match(/^(.+?)\s*\(/);
-          const heroName = nameMatch ? nameMatch[1].trim() : titleAttr;
+    // Upsert the data to avoid duplicates
+    const { data: upsertData, error } = await this.supabaseService
+      .getClient()
+      .from('news')
+      .upsert(row, { onConflict: 'url' });
 
-          if (!heroName) {
-            this.logger.warn(
-              `Could not parse hero name from title "${titleAttr}" for hero ID ${heroId}. Skipping...`,
-            );
-            return;
-          }
+    if (error) {
+      this.logger.error(`Error upserting ${type}: ${error.message}`);
+      run.failed(link, error.message);
+      return;
+    }
 
-          this.logger.debug(
-            `Extracted hero: ID=${heroId}, Name=${heroName}, Image=${imageUrl}, Type=${heroType}`,
-          );
+    if (exists) {
+      run.updated(link);
+    } else {
+      run.inserted(link);
+    }
 
-          heroes.push({
-            name: heroName,
-            image_url: imageUrl,
-            type: heroType,
-            created_at: new Date(),
-            game_id: this.marvelRivalsGameId,
-          });
-        });
-      });
+    if (type === NewsType.Update && newsItem.body_html) {
+      await this.ingestPatchNotes(newsItem, run);
+    }
 
-      this.logger.log(`Total heroes extracted: ${heroes.length}`);
+    if (upsertData) {
+      this.logger.log(`Upserted ${type}: ${JSON.stringify(upsertData)}`);
+    }
+  }
 
-      if (heroes.length === 0) {
-        this.logger.warn('No heroes extracted to insert.');
-        return;
+  async scrapeHeroes(
+    trigger: ScrapeTrigger = 'http',
+    progress: ScrapeProgress = NO_PROGRESS,
+  ): Promise<ScrapeRunResult> {
+    const run = await this.scrapeRunsService.start('heroes', trigger);
+    const games = this.gameSourcesService
+      .findAll()
+      .filter((game) => game.heroes_page);
+    progress.setTotal(games.length);
+
+    try {
+      const pages: HeroListPage[] = [];
+      for (const game of games) {
+        if (progress.cancelled) {
+          run.cancel();
+          return this.scrapeRunsService.finish(run);
+        }
+
+        const url = ScrapingUtils.getHeroPageUrl(
+          game.wiki_base_url,
+          game.heroes_page,
+        );
+        try {
+          const page = await this.fetchHeroList(game, url, run);
+          if (page) {
+            pages.push(page);
+          }
+        } catch (error) {
+          this.logger.error(
+            `Failed to scrape ${game.name} heroes from ${url}: ${error.message}`,
+          );
+          run.failed(url, error.message);
+        } finally {
+          progress.advance();
+        }
       }
 
-      const { error } = await this.supabaseService
-        .getClient()
-        .from('marvel_rivals_heroes')
-        .upsert(heroes, { onConflict: 'name' });
+      // Compared across all games, as the previous run counted them together
+      const ratioWarning = checkPreviousRunRatio(
+        'hero-list',
+        pages.length === 1 ? pages[0].url : null,
+        'heroes',
+        pages.reduce((total, page) => total + page.heroes.length, 0),
+        await this.scrapeRunsService.findPreviousItemCount('heroes'),
+      );
 
-      if (error) {
-        this.logger.error(`Error upserting heroes: ${error.message}`);
-        return;
+      // A broken page must not overwrite good rows with partial data
+      if (ratioWarning) {
+        this.logger.warn(
+          `Heroes pages failed layout health checks. Skipping writes.`,
+        );
+        run.warn(ratioWarning);
+        pages.forEach((page) =>
+          run.skipped(page.url, 'Page failed layout health checks'),
+        );
+        return this.scrapeRunsService.finish(run);
       }
 
-      this.logger.log('Heroes inserted successfully.');
+      for (const page of pages) {
+        if (progress.cancelled) {
+          run.cancel();
+          return this.scrapeRunsService.finish(run);
+        }
+        await this.storeHeroes(page, run);
+      }
     } catch (error) {
       this.logger.error(`Failed to scrape heroes: ${error.message}`);
+      run.fail(error.message);
     }
+
+    return this.scrapeRunsService.finish(run);
   }
 
-  async scrapeHeroLoreAndStats(): Promise<void> {
-    try {
-      this.logger.log('Starting to scrape lore for all heroes.');
+  /**
+   * Fetches and parses a game's hero list page.
+   * @returns null when the page may not be scraped or fails its layout
+   * health checks; both are recorded on the run.
+   */
+  private async fetchHeroList(
+    game: GameSource,
+    url: string,
+    run: ScrapeRun,
+  ): Promise<HeroListPage | null> {
+    this.logger.log(`Starting to scrape ${game.name} heroes from ${url}`);
+
+    const canScrape = await this.canScrape(url);
+    if (!canScrape) {
+      this.logger.warn(`Scraping is not allowed for ${url}. Skipping...`);
+      run.skipped(url, 'Disallowed by robots.txt');
+      return null;
+    }
 
-      // Fetch all heroes from the database
-      const { data: heroes, error: fetchError } = await this.supabaseService
-        .getClient()
-        .from('marvel_rivals_heroes')
-        .select('*');
+    const {
+      html,
+      result: { healthWarnings, parsed },
+    } = await this.fetchPage(
+      url,
+      game.wiki_render ?? RenderMode.Static,
+      (html) => ({
+        healthWarnings: checkPageHealth('hero-list', url, html),
+        parsed: this.parsePage(game, 'hero-list', url, html),
+      }),
+      ({ healthWarnings, parsed }) =>
+        healthWarnings.length > 0 || !parsed?.result.heroes.length,
+    );
+
+    this.logger.log('Fetched data successfully.');
+
+    this.logger.debug(`Fetched HTML snippet: ${html.substring(0, 1000)}`);
+
+    if (healthWarnings.length > 0) {
+      this.logger.warn(
+        `${game.name} heroes page failed layout health checks. Skipping writes.`,
+      );
+      healthWarnings.forEach((warning) => run.warn(warning));
+      run.skipped(url, 'Page failed layout health checks');
+      return null;
+    }
 
-      if (fetchError) {
-        this.logger.error(`Error fetching heroes: ${fetchError.message}`);
-        return;
-      }
+    if (!parsed) {
+      run.skipped(url, 'No parser matches the page layout');
+      return null;
+    }
+    const { heroes, skipped } = parsed.result;
+    skipped.forEach((item) => run.skipped(item.key, item.reason));
 
-      if (!heroes || heroes.length === 0) {
-        this.logger.warn('No heroes found in the database to scrape lore.');
-        return;
+    return { game, url, heroes, parserVersion: parsed.parserVersion };
+  }
+
+  private async storeHeroes(
+    { game, heroes: parsedHeroes, parserVersion }: HeroListPage,
+    run: ScrapeRun,
+  ) {
+    const heroes: Hero[] = [];
+    for (const parsedHero of parsedHeroes) {
+      const hero: Hero = {
+        ...parsedHero,
+        original_image_url: parsedHero.image_url,
+        thumbnails: null,
+        type: parsedHero.type as HeroType,
+        created_at: new Date(),
+        game_id: game.id,
+        parser_version: parserVersion,
+      };
+
+      const validationErrors = validateHero(hero);
+      if (validationErrors.length > 0) {
+        this.logger.warn(
+          `Rejected hero ${hero.name}: ${validationErrors.join('; ')}`,
+        );
+        run.invalid(hero.name || hero.image_url, validationErrors);
+        continue;
       }
 
-      this.logger.log(`Found ${heroes.length} heroes to scrape lore for.`);
+      heroes.push(hero);
+    }
 
-      // Process each hero sequentially
-      for (const hero of heroes) {
-        const heroUrl = ScrapingUtils.getHeroPageUrl(hero.name);
+    this.logger.log(`Total ${game.name} heroes extracted: ${heroes.length}`);
 
-        try {
-          // Check robots.txt permissions
-          const canScrape = await this.canScrape(heroUrl);
-          if (!canScrape) {
-            this.logger.warn(
-              `Scraping is not allowed for ${heroUrl}. Skipping...`,
-            );
-            continue;
-          }
+    if (heroes.length === 0) {
+      this.logger.warn(`No ${game.name} heroes extracted to insert.`);
+      return;
+    }
 
-          // Fetch the hero page with Axios
-          const { data: heroPageData } = await axios.get(heroUrl, {
-            headers: {
-              'User-Agent':
-                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36',
-            },
-          });
+    const existingHeroes = await this.findExistingHeroes(
+      game.id,
+      heroes.map((hero) => hero.name),
+    );
+
+    for (const hero of heroes) {
+      Object.assign(
+        hero,
+        await this.mirrorImage(
+          hero.original_image_url,
+          existingHeroes.get(hero.name),
+        ),
+      );
+    }
 
-          this.logger.log(`Fetched data for hero: \x1b[36m${hero.name}\x1b[0m`);
+    const { error } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .upsert(heroes, { onConflict: 'game_id,name' });
 
-          const loreContent = ScrapingUtils.getHeroLoreSection(
-            this.logger,
-            hero.name,
-            heroUrl,
-            heroPageData,
-          );
+    if (error) {
+      this.logger.error(`Error upserting heroes: ${error.message}`);
+      heroes.forEach((hero) => run.failed(hero.name, error.message));
+      return;
+    }
 
-          if (!loreContent) {
-            this.logger.warn(
-              `No lore content found for hero: ${hero.name} at ${heroUrl}. Skipping...`,
-            );
-            continue;
-          }
+    heroes.forEach((hero) =>
+      existingHeroes.has(hero.name)
+        ? run.updated(hero.name)
+        : run.inserted(hero.name),
+    );
 
-          this.logger.log(`Lore content for hero ${hero.name}`);
+    this.logger.log(`${game.name} heroes inserted successfully.`);
+  }
 
-          const updatedStats = ScrapingUtils.generateStats(
-            this.logger,
-            heroPageData,
-          );
+  async scrapeHeroLoreAndStats(
+    trigger: ScrapeTrigger = 'http',
+    progress: ScrapeProgress = NO_PROGRESS,
+  ): Promise<ScrapeRunResult> {
+    const run = await this.scrapeRunsService.start('lore', trigger);
 
-          const { data: updateData, error: updateError } =
-            await this.supabaseService
-              .getClient()
-              .from('marvel_rivals_heroes')
-              .update({ lore: loreContent, stats: updatedStats })
-              .eq('id', hero.id);
+    try {
+      this.logger.log('Starting to scrape lore for all heroes.');
 
-          if (updateError) {
-            this.logger.error(
-              `Error updating lore for hero ${hero.name}: ${updateError.message}`,
-            );
-            continue;
-          }
+      const heroes = await this.findStoredHeroes(run);
+      if (!heroes) {
+        return this.scrapeRunsService.finish(run);
+      }
 
-          if (updateData) {
-            this.logger.log(`Successfully updated lore for hero: ${hero.name}`);
-          }
+      this.logger.log(`Found ${heroes.length} heroes to scrape lore for.`);
+
+      progress.setTotal(heroes.length);
+
+      // Process each hero sequentially
+      for (const hero of heroes) {
+        if (progress.cancelled) {
+          run.cancel();
+          break;
+        }
+
+        const heroUrl = await this.getScrapableHeroPageUrl(hero, [run]);
+        if (!heroUrl) {
+          progress.advance();
+          continue;
+        }
+
+        try {
+          // Fetch the hero page through the shared fetcher
+          const { result: page } = await this.fetchPage(
+            heroUrl,
+            this.getWikiRenderMode(hero),
+            (html) => this.parseHeroLore(hero, heroUrl, html),
+            (page) => !hasLore(page.lore),
+          );
+
+          this.logger.log(`Fetched data for hero: \x1b[36m${hero.name}\x1b[0m`);
+
+          await this.storeHeroLore(hero, heroUrl, page, run);
         } catch (heroError) {
           this.logger.error(
             `Failed to scrape lore for hero ${hero.name}: ${heroError.message}`,
           );
-          continue;
+          run.failed(hero.name, heroError.message);
+        } finally {
+          progress.advance();
         }
       }
 
       this.logger.log('Completed scraping lore for all heroes.');
     } catch (error) {
       this.logger.error(`Failed to scrape hero lore: ${error.message}`);
+      run.fail(error.message);
     }
+
+    return this.scrapeRunsService.finish(run);
   }
 
-  async scrapeHeroAbilities(): Promise<void> {
+  async scrapeHeroAbilities(
+    trigger: ScrapeTrigger = 'http',
+    progress: ScrapeProgress = NO_PROGRESS,
+  ): Promise<ScrapeRunResult> {
+    const run = await this.scrapeRunsService.start('abilities', trigger);
+
     try {
       this.logger.log('Starting to scrape abilities for all heroes.');
 
-      // Fetch all heroes from the database
-      const { data: heroes, error: fetchError } = await this.supabaseService
-        .getClient()
-        .from('marvel_rivals_heroes')
-        .select('id, name');
-
-      if (fetchError) {
-        this.logger.error(`Error fetching heroes: ${fetchError.message}`);
-        return;
-      }
-
-      if (!heroes || heroes.length === 0) {
-        this.logger.warn(
-          'No heroes found in the database to scrape abilities.',
-        );
-        return;
+      const heroes = await this.findStoredHeroes(run);
+      if (!heroes) {
+        return this.scrapeRunsService.finish(run);
       }
 
       this.logger.log(`Found ${heroes.length} heroes to scrape abilities for.`);
 
+      const previousCount =
+        await this.scrapeRunsService.findPreviousItemCount('abilities');
+
+      progress.setTotal(heroes.length);
+
       // Process each hero sequentially
       for (const hero of heroes) {
-        const heroUrl = ScrapingUtils.getHeroPageUrl(hero.name);
+        if (progress.cancelled) {
+          run.cancel();
+          break;
+        }
 
-        this.logger.log(
-          `Scraping abilities for hero: ${hero.name} from ${heroUrl}`,
-        );
+        const heroUrl = await this.getScrapableHeroPageUrl(hero, [run]);
+        if (!heroUrl) {
+          progress.advance();
+          continue;
+        }
 
         try {
-          // Check robots.txt permissions
-          const canScrape = await this.canScrape(heroUrl);
-          if (!canScrape) {
-            this.logger.warn(
-              `Scraping is not allowed for ${heroUrl}. Skipping...`,
-            );
-            continue;
-          }
-
-          // Fetch the hero page with Axios
-          const { data: heroPageData } = await axios.get(heroUrl, {
-            headers: {
-              'User-Agent':
-                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36',
-            },
-          });
+          // Fetch the hero page through the shared fetcher. A page no parser
+          // recognizes yields no abilities and fails the checks in
+          // storeHeroAbilities()
+          const { result: page } = await this.fetchPage(
+            heroUrl,
+            this.getWikiRenderMode(hero),
+            (html) => this.parseHeroAbilities(hero, heroUrl, html),
+            (page) => !page.abilities?.result.length,
+          );
 
           this.logger.log(`Fetched data for hero: ${hero.name}`);
 
-          // Load HTML into Cheerio
-          const abilitiesToInsert = ScrapingUtils.extractAbilities(
-            this.logger,
-            heroPageData,
-            hero.id,
+          await this.storeHeroAbilities(hero, heroUrl, page, run);
+        } catch (heroError) {
+          this.logger.error(
+            `Failed to scrape abilities for hero ${hero.name}: ${heroError.message}`,
           );
+          run.failed(hero.name, heroError.message);
+        } finally {
+          progress.advance();
+        }
+      }
 
-          if (abilitiesToInsert.length === 0) {
-            this.logger.warn(
-              `No abilities extracted for hero: ${hero.name} at ${heroUrl}.`,
-            );
-            continue;
-          }
+      this.warnOnAbilityCountDrop(run, previousCount);
 
-          const { data: insertData, error: insertError } =
-            await this.supabaseService
-              .getClient()
-              .from('marvel_rivals_abilities')
-              .upsert(abilitiesToInsert, { onConflict: 'name' });
+      this.logger.log('Completed scraping abilities for all heroes.');
+    } catch (error) {
+      this.logger.error(`Failed to scrape hero abilities: ${error.message}`);
+      run.fail(error.message);
+    }
 
-          if (insertError) {
+    return this.scrapeRunsService.finish(run);
+  }
+
+  /**
+   * Runs hero discovery, then fetches each hero page once and feeds it to
+   * both the lore/stats and the abilities extractors. Each stage is recorded
+   * as its own run; lore and abilities are not started when hero discovery
+   * fails or is cancelled.
+   * @returns The results of the stages that ran, in order.
+   */
+  async scrapeHeroPipeline(
+    trigger: ScrapeTrigger = 'http',
+    progress: ScrapeProgress = NO_PROGRESS,
+  ): Promise<ScrapeRunResult[]> {
+    // Hero discovery only checks for cancellation; the job's progress counts
+    // hero pages
+    const heroes = await this.scrapeHeroes(trigger, {
+      get cancelled() {
+        return progress.cancelled;
+      },
+      setTotal: () => undefined,
+      advance: () => undefined,
+    });
+    if (heroes.status === 'failed' || heroes.status === 'cancelled') {
+      return [heroes];
+    }
+
+    const loreRun = await this.scrapeRunsService.start('lore', trigger);
+    const abilitiesRun = await this.scrapeRunsService.start(
+      'abilities',
+      trigger,
+    );
+    const runs = [loreRun, abilitiesRun];
+
+    try {
+      const storedHeroes = await this.findStoredHeroes(...runs);
+      if (storedHeroes) {
+        const previousCount =
+          await this.scrapeRunsService.findPreviousItemCount('abilities');
+
+        progress.setTotal(storedHeroes.length);
+        await this.scrapeHeroPages(
+          storedHeroes,
+          loreRun,
+          abilitiesRun,
+          progress,
+        );
+
+        this.warnOnAbilityCountDrop(abilitiesRun, previousCount);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to scrape hero pages: ${error.message}`);
+      runs.forEach((run) => run.fail(error.message));
+    }
+
+    return [
+      heroes,
+      await this.scrapeRunsService.finish(loreRun),
+      await this.scrapeRunsService.finish(abilitiesRun),
+    ];
+  }
+
+  private async scrapeHeroPages(
+    heroes: StoredHero[],
+    loreRun: ScrapeRun,
+    abilitiesRun: ScrapeRun,
+    progress: ScrapeProgress,
+  ) {
+    const runs = [loreRun, abilitiesRun];
+
+    for (const hero of heroes) {
+      if (progress.cancelled) {
+        runs.forEach((run) => run.cancel());
+        break;
+      }
+
+      const heroUrl = await this.getScrapableHeroPageUrl(hero, runs);
+      if (!heroUrl) {
+        progress.advance();
+        continue;
+      }
+
+      try {
+        // Only a page that yields neither lore nor abilities is re-rendered
+        const {
+          result: { lorePage, abilitiesPage },
+        } = await this.fetchPage(
+          heroUrl,
+          this.getWikiRenderMode(hero),
+          (html) => ({
+            lorePage: this.parseHeroLore(hero, heroUrl, html),
+            abilitiesPage: this.parseHeroAbilities(hero, heroUrl, html),
+          }),
+          ({ lorePage, abilitiesPage }) =>
+            !hasLore(lorePage.lore) && !abilitiesPage.abilities?.result.length,
+        );
+
+        this.logger.log(`Fetched data for hero: ${hero.name}`);
+
+        // A failure in one extractor must not cost the other its results
+        const stores: Array<[ScrapeRun, () => Promise<void>]> = [
+          [loreRun, () => this.storeHeroLore(hero, heroUrl, lorePage, loreRun)],
+          [
+            abilitiesRun,
+            () =>
+              this.storeHeroAbilities(
+                hero,
+                heroUrl,
+                abilitiesPage,
+                abilitiesRun,
+              ),
+          ],
+        ];
+        for (const [run, store] of stores) {
+          try {
+            await store();
+          } catch (error) {
             this.logger.error(
-              `Error inserting abilities for hero ${hero.name}: ${insertError.message}`,
+              `Failed to scrape ${run.job} for hero ${hero.name}: ${error.message}`,
             );
-            continue;
+            run.failed(hero.name, error.message);
           }
+        }
+      } catch (heroError) {
+        this.logger.error(
+          `Failed to fetch the page of hero ${hero.name}: ${heroError.message}`,
+        );
+        runs.forEach((run) => run.failed(hero.name, heroError.message));
+      } finally {
+        progress.advance();
+      }
+    }
+  }
 
-          if (insertData) {
-            this.logger.log(
-              `Successfully inserted ${insertData} abilities for hero: ${hero.name}`,
-            );
-          }
+  /**
+   * Reads the heroes of every registered game from the database.
+   * @returns null when there are none or they could not be read; the runs
+   * are marked as failed.
+   */
+  private async findStoredHeroes(
+    ...runs: ScrapeRun[]
+  ): Promise<StoredHero[] | null> {
+    const { data: heroes, error: fetchError } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .select('id, name, game_id')
+      .in('game_id', this.gameIds());
+
+    if (fetchError) {
+      this.logger.error(`Error fetching heroes: ${fetchError.message}`);
+      runs.forEach((run) =>
+        run.fail(`Error fetching heroes: ${fetchError.message}`),
+      );
+      return null;
+    }
 
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        } catch (heroError) {
-          this.logger.error(
-            `Failed to scrape abilities for hero ${hero.name}: ${heroError.message}`,
+    if (!heroes || heroes.length === 0) {
+      this.logger.warn('No heroes found in the database to scrape.');
+      runs.forEach((run) => run.fail('No heroes found in the database'));
+      return null;
+    }
+
+    return heroes;
+  }
+
+  /**
+   * Resolves the wiki page of a hero and checks robots.txt for it.
+   * @returns null when the page may not be scraped; recorded on the runs.
+   */
+  private async getScrapableHeroPageUrl(
+    hero: StoredHero,
+    runs: ScrapeRun[],
+  ): Promise<string | null> {
+    const heroUrl = this.getHeroPageUrl(hero);
+    if (!heroUrl) {
+      runs.forEach((run) =>
+        run.skipped(hero.name, 'No wiki configured for its game'),
+      );
+      return null;
+    }
+
+    // Check robots.txt permissions
+    const canScrape = await this.canScrape(heroUrl);
+    if (!canScrape) {
+      this.logger.warn(`Scraping is not allowed for ${heroUrl}. Skipping...`);
+      runs.forEach((run) => run.skipped(hero.name, 'Disallowed by robots.txt'));
+      return null;
+    }
+
+    return heroUrl;
+  }
+
+  private parseHeroLore(
+    hero: StoredHero,
+    heroUrl: string,
+    html: string,
+  ): HeroLorePage {
+    const game = this.gameSourcesService.findById(hero.game_id);
+    const infoboxWarnings = checkPageHealth('hero-infobox', heroUrl, html);
+    const infobox =
+      infoboxWarnings.length > 0
+        ? null
+        : ScrapingUtils.extractHeroStats(
+            html,
+            game.infobox_fields ?? DEFAULT_INFOBOX_FIELDS,
           );
-          continue;
-        }
+    const { profile, stats } = splitHeroProfile(
+      infobox?.stats ?? emptyHeroStats(),
+    );
+    const text = this.parsePage(game, 'hero-lore', heroUrl, html);
+
+    return {
+      lore: text && { ...profile, ...text.result },
+      infoboxWarnings,
+      infobox: infobox && { stats, unparseable: infobox.unparseable },
+    };
+  }
+
+  // A page no parser recognizes yields no abilities
+  private parseHeroAbilities(
+    hero: StoredHero,
+    heroUrl: string,
+    html: string,
+  ): HeroAbilitiesPage {
+    return {
+      abilities: this.parsePage(
+        this.gameSourcesService.findById(hero.game_id),
+        'hero-abilities',
+        heroUrl,
+        html,
+      ),
+      healthWarnings: checkPageHealth('hero-abilities', heroUrl, html),
+    };
+  }
+
+  /**
+   * Writes the hero profile and infobox stats from a parsed hero page. The
+   * biography is also stored as plain text in `lore`.
+   */
+  private async storeHeroLore(
+    hero: StoredHero,
+    heroUrl: string,
+    page: HeroLorePage,
+    run: ScrapeRun,
+  ) {
+    const lore = page.lore;
+
+    if (!hasLore(lore)) {
+      this.logger.warn(
+        `No lore content found for hero: ${hero.name} at ${heroUrl}. Skipping...`,
+      );
+      run.skipped(hero.name, 'No lore content found');
+      return;
+    }
+
+    this.logger.log(`Lore content for hero ${hero.name}`);
+
+    const loreErrors = validateHeroLore(lore);
+    if (loreErrors.length > 0) {
+      this.logger.warn(
+        `Rejected lore for hero ${hero.name}: ${loreErrors.join('; ')}`,
+      );
+      run.invalid(`${hero.name}: lore`, loreErrors);
+      return;
+    }
+
+    const heroUpdate: {
+      lore?: string;
+      lore_details: HeroLore;
+      stats?: HeroStats;
+    } = { lore_details: lore };
+    if (lore.biography.length > 0) {
+      heroUpdate.lore = lore.biography
+        .map((paragraph) => paragraph.text)
+        .join('\n\n');
+    }
+
+    if (!page.infobox) {
+      // Keep the stored stats rather than overwriting them with nulls
+      page.infoboxWarnings.forEach((warning) => run.warn(warning));
+      this.logger.warn(
+        `Infobox missing for hero ${hero.name}. Keeping existing stats.`,
+      );
+    } else {
+      const { stats, unparseable } = page.infobox;
+      // One odd value is a problem of this hero, not layout drift; the
+      // field is stored as null and the other stats are kept
+      for (const field of unparseable) {
+        run.invalid(`${hero.name}: ${field.key}`, [
+          `${field.source} "${field.raw}": ${field.reason}`,
+        ]);
       }
-      this.logger.log('Completed scraping abilities for all heroes.');
-    } catch (error) {
-      this.logger.error(`Failed to scrape hero abilities: ${error.message}`);
+      const validationErrors = validateHeroStats(stats);
+      if (validationErrors.length > 0) {
+        // Lore is still written; only the malformed stats are dropped
+        this.logger.warn(
+          `Rejected stats for hero ${hero.name}: ${validationErrors.join('; ')}`,
+        );
+        run.invalid(`${hero.name}: stats`, validationErrors);
+      } else {
+        heroUpdate.stats = stats;
+      }
+    }
+
+    const { data: updateData, error: updateError } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_heroes')
+      .update(heroUpdate)
+      .eq('id', hero.id);
+
+    if (updateError) {
+      this.logger.error(
+        `Error updating lore for hero ${hero.name}: ${updateError.message}`,
+      );
+      run.failed(hero.name, updateError.message);
+      return;
+    }
+
+    run.updated(hero.name);
+
+    if (heroUpdate.stats) {
+      await this.historyService.recordHeroStats(
+        hero.id,
+        heroUpdate.stats,
+        run.id,
+      );
+    }
+
+    if (updateData) {
+      this.logger.log(`Successfully updated lore for hero: ${hero.name}`);
+    }
+  }
+
+  /**
+   * Upserts the abilities from a parsed hero page and retires the stored
+   * ones that are no longer on it.
+   */
+  private async storeHeroAbilities(
+    hero: StoredHero,
+    heroUrl: string,
+    page: HeroAbilitiesPage,
+    run: ScrapeRun,
+  ) {
+    const parsed = page.abilities;
+    const abilitiesToInsert = parsed
+      ? ScrapingUtils.buildAbilities(
+          hero.id,
+          parsed.result,
+          parsed.parserVersion,
+        )
+      : [];
+
+    const abilityWarnings = [
+      ...page.healthWarnings,
+      checkMinimumCount(
+        'hero-abilities',
+        heroUrl,
+        `abilities for ${hero.name}`,
+        abilitiesToInsert.length,
+        MIN_ABILITIES_PER_HERO,
+      ),
+    ].filter(Boolean);
+
+    if (abilityWarnings.length > 0) {
+      this.logger.warn(
+        `Abilities page for hero: ${hero.name} at ${heroUrl} failed layout health checks. Skipping...`,
+      );
+      abilityWarnings.forEach((warning) => run.warn(warning));
+      run.skipped(hero.name, 'Page failed layout health checks');
+      return;
+    }
+
+    const validAbilities: Ability[] = [];
+    const seenSlugs = new Set<string>();
+    for (const ability of abilitiesToInsert) {
+      if (seenSlugs.has(ability.slug)) {
+        // The upsert would fail on a slug appearing twice in one batch
+        run.skipped(
+          `${hero.name}: ${ability.name}`,
+          `Duplicate ability slug ${ability.slug}`,
+        );
+        continue;
+      }
+      seenSlugs.add(ability.slug);
+
+      const validationErrors = validateAbility(ability);
+      if (validationErrors.length > 0) {
+        this.logger.warn(
+          `Rejected ability ${ability.name} for hero ${hero.name}: ${validationErrors.join('; ')}`,
+        );
+        run.invalid(`${hero.name}: ${ability.name}`, validationErrors);
+        continue;
+      }
+      validAbilities.push(ability);
+    }
+
+    if (validAbilities.length === 0) {
+      return;
+    }
+
+    const existingAbilities = await this.findHeroAbilities(hero.id);
+
+    const { data: insertData, error: insertError } = await this.supabaseService
+      .getClient()
+      .from('marvel_rivals_abilities')
+      .upsert(validAbilities, { onConflict: 'hero_id,slug' });
+
+    if (insertError) {
+      this.logger.error(
+        `Error inserting abilities for hero ${hero.name}: ${insertError.message}`,
+      );
+      run.failed(hero.name, insertError.message);
+      return;
+    }
+
+    for (const ability of validAbilities) {
+      const key = `${hero.name}: ${ability.name}`;
+      if (existingAbilities.has(ability.slug)) {
+        run.updated(key);
+      } else {
+        run.inserted(key);
+      }
+
+      await this.historyService.recordAbilityStats(
+        hero.id,
+        ability.slug,
+        ability.name,
+        ability.stats,
+        run.id,
+      );
+    }
+
+    // Rejected abilities are still on the page and must not be retired
+    await this.retireMissingAbilities(
+      hero,
+      new Set(abilitiesToInsert.map((ability) => ability.slug)),
+      existingAbilities,
+      run,
+    );
+
+    if (insertData) {
+      this.logger.log(
+        `Successfully inserted ${insertData} abilities for hero: ${hero.name}`,
+      );
+    }
+  }
+
+  private warnOnAbilityCountDrop(run: ScrapeRun, previousCount: number | null) {
+    if (!run.cancelled) {
+      run.warn(
+        checkPreviousRunRatio(
+          'hero-abilities',
+          null,
+          'abilities',
+          run.count('inserted') + run.count('updated'),
+          previousCount,
+        ),
+      );
     }
   }
 }
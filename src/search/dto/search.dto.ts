@@ -0,0 +1,24 @@
+import { SearchEntityType } from '../search-index';
+
+export class SearchResultDto {
+  type: SearchEntityType;
+  id: string;
+  game_id: string;
+  // Hero name, `${hero}: ${ability}` or news title
+  title: string;
+  // HTML-escaped text around the match, with matched words in <mark> tags
+  snippet: string;
+  score: number;
+  // Set for abilities
+  hero_id: string | null;
+  // Set for news
+  url: string | null;
+}
+
+export interface SearchQuery {
+  q: string;
+  types?: SearchEntityType[];
+  game_id?: string;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,111 @@
+import {
+  SearchDocument,
+  SearchEntityType,
+  SearchIndex,
+  highlight,
+  tokenize,
+} from './search-index';
+
+const document = (
+  type: SearchEntityType,
+  id: string,
+  title: string,
+  body: string,
+  gameId = 'game-1',
+): SearchDocument => ({
+  type,
+  id,
+  game_id: gameId,
+  title,
+  body,
+  hero_id: null,
+  url: null,
+});
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.replaceType(SearchEntityType.Hero, [
+      document(
+        SearchEntityType.Hero,
+        'storm',
+        'Storm',
+        'Ororo Munroe commands the weather over Wakanda.',
+      ),
+      document(
+        SearchEntityType.Hero,
+        'hulk',
+        'Hulk',
+        'Bruce Banner was caught in a gamma blast.',
+      ),
+    ]);
+    index.replaceType(SearchEntityType.Ability, [
+      document(
+        SearchEntityType.Ability,
+        'gamma-burst',
+        'Hulk: Gamma Burst',
+        'Fire a gamma beam that deals damage.',
+      ),
+    ]);
+    index.replaceType(SearchEntityType.News, [
+      document(
+        SearchEntityType.News,
+        'patch',
+        'Version 20241210 Patch Notes',
+        'Storm: Weather Control cooldown reduced. Hulk’s gamma output increased.',
+        'game-2',
+      ),
+    ]);
+  });
+
+  it('should normalize case, diacritics and apostrophes', () => {
+    expect(tokenize('Hulk’s CAFÉ-run')).toEqual(['hulks', 'cafe', 'run']);
+  });
+
+  it('should require every term and rank title matches first', () => {
+    const hits = index.search('gamma hulk');
+
+    expect(hits.map((hit) => hit.document.id)).toEqual(['gamma-burst', 'hulk']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should filter by type and game', () => {
+    expect(
+      index
+        .search('storm', { types: [SearchEntityType.News] })
+        .map((hit) => hit.document.id),
+    ).toEqual(['patch']);
+    expect(index.search('storm', { gameId: 'game-1' })).toHaveLength(1);
+  });
+
+  it('should replace the documents of one type only', () => {
+    index.replaceType(SearchEntityType.Hero, []);
+
+    expect(index.size).toBe(2);
+    expect(index.search('weather').map((hit) => hit.document.id)).toEqual([
+      'patch',
+    ]);
+  });
+
+  it('should highlight matches in an escaped snippet', () => {
+    const [hit] = index.search('wakanda');
+
+    expect(hit.snippet).toBe(
+      'Ororo Munroe commands the weather over <mark>Wakanda</mark>.',
+    );
+    expect(highlight('<b>Storm</b> & co', new Set(['storm']))).toBe(
+      '&lt;b&gt;<mark>Storm</mark>&lt;/b&gt; &amp; co',
+    );
+  });
+
+  it('should cut long text around the first match', () => {
+    const text = `${'filler '.repeat(40)}Storm ${'tail '.repeat(60)}`;
+
+    const snippet = highlight(text, new Set(['storm']));
+
+    expect(snippet).toMatch(/^…filler .*<mark>Storm<\/mark> tail .*tail…$/);
+    expect(snippet.length).toBeLessThan(240);
+  });
+});
@@ -0,0 +1,235 @@
+export enum SearchEntityType {
+  Hero = 'hero',
+  Ability = 'ability',
+  News = 'news',
+}
+
+/**
+ * A searchable row. `id` is the id of the hero, ability or news item it was
+ * built from; `hero_id` links an ability to its hero.
+ */
+export interface SearchDocument {
+  type: SearchEntityType;
+  id: string;
+  game_id: string;
+  title: string;
+  body: string;
+  hero_id: string | null;
+  url: string | null;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  // Plain text around the first match, with matched words in <mark> tags
+  snippet: string;
+}
+
+export interface SearchOptions {
+  types?: SearchEntityType[];
+  gameId?: string;
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  // Term frequency weighted by field, see TITLE_WEIGHT
+  terms: Map<string, number>;
+  length: number;
+}
+
+// A title match counts as this many body matches
+const TITLE_WEIGHT = 3;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Lowercases, strips diacritics and possessive/contraction apostrophes, so
+ * "Hulk's" and "hulks" index as the same term.
+ */
+export function normalizeTerm(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '');
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(normalizeTerm);
+}
+
+/**
+ * An in-memory inverted index ranked with BM25. Every query term has to
+ * match, in the title or the body, for a document to be returned.
+ */
+export class SearchIndex {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Replaces all documents of `type` at once, so searches never see a
+   * half-rebuilt index.
+   */
+  replaceType(type: SearchEntityType, documents: SearchDocument[]) {
+    for (const [key, indexed] of this.documents) {
+      if (indexed.document.type === type) {
+        this.remove(key);
+      }
+    }
+    for (const document of documents) {
+      this.add(document);
+    }
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) {
+      return [];
+    }
+
+    // Start from the rarest term to keep the candidate set small
+    const postings = terms
+      .map((term) => this.postings.get(term) ?? new Set<string>())
+      .sort((a, b) => a.size - b.size);
+    const candidates = [...postings[0]].filter((key) =>
+      postings.every((keys) => keys.has(key)),
+    );
+
+    const averageLength = this.totalLength / Math.max(1, this.documents.size);
+    const hits: SearchHit[] = [];
+    for (const key of candidates) {
+      const indexed = this.documents.get(key);
+      const { document } = indexed;
+      if (options.types?.length && !options.types.includes(document.type)) {
+        continue;
+      }
+      if (options.gameId && document.game_id !== options.gameId) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = indexed.terms.get(term);
+        const matching = this.postings.get(term).size;
+        const idf = Math.log(
+          1 + (this.documents.size - matching + 0.5) / (matching + 0.5),
+        );
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency +
+            K1 * (1 - B + (B * indexed.length) / Math.max(1, averageLength)));
+      }
+
+      hits.push({
+        document,
+        score: Math.round(score * 1000) / 1000,
+        snippet: highlight(document.body || document.title, new Set(terms)),
+      });
+    }
+
+    return hits.sort(
+      (a, b) =>
+        b.score - a.score || a.document.title.localeCompare(b.document.title),
+    );
+  }
+
+  private add(document: SearchDocument) {
+    const key = `${document.type}:${document.id}`;
+    const terms = new Map<string, number>();
+    const title = tokenize(document.title);
+    const body = tokenize(document.body);
+    for (const term of title) {
+      terms.set(term, (terms.get(term) ?? 0) + TITLE_WEIGHT);
+    }
+    for (const term of body) {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+    }
+
+    const length = title.length * TITLE_WEIGHT + body.length;
+    this.documents.set(key, { document, terms, length });
+    this.totalLength += length;
+    for (const term of terms.keys()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+      this.postings.get(term).add(key);
+    }
+  }
+
+  private remove(key: string) {
+    const indexed = this.documents.get(key);
+    this.documents.delete(key);
+    this.totalLength -= indexed.length;
+    for (const term of indexed.terms.keys()) {
+      const keys = this.postings.get(term);
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+  }
+}
+
+/**
+ * Cuts about SNIPPET_LENGTH characters of `text` around its first matching
+ * word and wraps every match in <mark>. The rest of the text is HTML-escaped
+ * so the snippet can be rendered as is.
+ */
+export function highlight(text: string, terms: Set<string>): string {
+  const plain = text.replace(/\s+/g, ' ').trim();
+  const words = [...plain.matchAll(WORD_PATTERN)];
+  const first = words.find((word) => terms.has(normalizeTerm(word[0])));
+
+  let start = first ? Math.max(0, first.index - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    // Never start halfway through a word
+    start = words.find((word) => word.index >= start)?.index ?? start;
+  }
+  let end = Math.min(plain.length, start + SNIPPET_LENGTH);
+  if (end < plain.length) {
+    const last = words.filter(
+      (word) => word.index > start && word.index + word[0].length <= end,
+    );
+    if (last.length) {
+      const word = last[last.length - 1];
+      end = word.index + word[0].length;
+    }
+  }
+
+  let snippet = '';
+  let position = start;
+  for (const word of words) {
+    if (word.index < start || word.index + word[0].length > end) {
+      continue;
+    }
+    if (!terms.has(normalizeTerm(word[0]))) {
+      continue;
+    }
+    snippet += escapeHtml(plain.slice(position, word.index));
+    snippet += `<mark>${escapeHtml(word[0])}</mark>`;
+    position = word.index + word[0].length;
+  }
+  snippet += escapeHtml(plain.slice(position, end));
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < plain.length ? '…' : ''}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
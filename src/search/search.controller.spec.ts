@@ -0,0 +1,43 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { SearchEntityType } from './search-index';
+
+describe('SearchController', () => {
+  let controller: SearchController;
+  const searchService = { search: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SearchController],
+      providers: [{ provide: SearchService, useValue: searchService }],
+    }).compile();
+
+    controller = module.get<SearchController>(SearchController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should forward the query and type filters to the service', async () => {
+    await controller.search('storm', 'hero, news', 'game-1', 2, 10);
+
+    expect(searchService.search).toHaveBeenCalledWith({
+      q: 'storm',
+      types: [SearchEntityType.Hero, SearchEntityType.News],
+      game_id: 'game-1',
+      page: 2,
+      limit: 10,
+    });
+  });
+
+  it('should reject unknown types', async () => {
+    await expect(
+      controller.search('storm', 'hero,patch', undefined, 1, 20),
+    ).rejects.toThrow(BadRequestException);
+    expect(searchService.search).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  BadRequestException,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE } from 'src/common/pagination';
+import { SearchEntityType } from './search-index';
+import { SearchService } from './search.service';
+
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  /**
+   * `type` takes a comma-separated list of hero, ability and news; all types
+   * are searched when it is omitted.
+   */
+  @Get()
+  async search(
+    @Query('q') q: string,
+    @Query('type') type: string | undefined,
+    @Query('game_id') gameId: string | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(DEFAULT_PAGE_SIZE), ParseIntPipe)
+    limit: number,
+  ) {
+    return this.searchService.search({
+      q,
+      types: this.parseTypes(type),
+      game_id: gameId,
+      page,
+      limit,
+    });
+  }
+
+  private parseTypes(type: string | undefined): SearchEntityType[] {
+    if (!type) {
+      return undefined;
+    }
+
+    const allowed: string[] = Object.values(SearchEntityType);
+    const types = type.split(',').map((value) => value.trim());
+    const unknown = types.filter((value) => !allowed.includes(value));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown type ${unknown.join(', ')}; expected ${allowed.join(', ')}`,
+      );
+    }
+    return types as SearchEntityType[];
+  }
+}
@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { SearchService } from './search.service';
+import { SearchEntityType } from './search-index';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let responses: Array<{ data: any; error: any }>;
+  const query: Record<string, jest.Mock> = {};
+
+  beforeEach(async () => {
+    responses = [];
+    for (const method of ['from', 'select', 'is', 'order', 'range']) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve(responses.shift() ?? { data: [], error: null }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: SupabaseService, useValue: { getClient: () => query } },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should index heroes, abilities and news and page through results', async () => {
+    responses = [
+      // heroes
+      {
+        data: [
+          {
+            id: 'hero-storm',
+            name: 'Storm',
+            lore: 'Ororo Munroe controls the weather.',
+            game_id: 'game-1',
+          },
+        ],
+        error: null,
+      },
+      // abilities
+      {
+        data: [
+          {
+            id: 'ability-1',
+            hero_id: 'hero-storm',
+            name: 'Weather Control',
+            description: 'Storm shifts the weather to boost allies.',
+          },
+        ],
+        error: null,
+      },
+      // news
+      {
+        data: [
+          {
+            id: 'news-1',
+            title: 'Balance update',
+            content: null,
+            body_markdown: '## Storm\n\n**Weather Control** now lasts longer.',
+            game_id: 'game-1',
+            url: 'https://www.marvelrivals.com/news/1.html',
+          },
+        ],
+        error: null,
+      },
+    ];
+
+    await service.reindex([
+      SearchEntityType.Hero,
+      SearchEntityType.Ability,
+      SearchEntityType.News,
+    ]);
+
+    expect(query.is).toHaveBeenCalledWith('retired_at', null);
+
+    const result = service.search({ q: 'weather', page: 1, limit: 2 });
+
+    expect(result.total).toBe(3);
+    expect(result.data).toHaveLength(2);
+    expect(result.data[0]).toEqual(
+      expect.objectContaining({
+        type: SearchEntityType.Ability,
+        id: 'ability-1',
+        title: 'Storm: Weather Control',
+        hero_id: 'hero-storm',
+      }),
+    );
+
+    const [news] = service.search({
+      q: 'weather',
+      types: [SearchEntityType.News],
+      page: 1,
+      limit: 20,
+    }).data;
+    expect(news.url).toBe('https://www.marvelrivals.com/news/1.html');
+    expect(news.snippet).toBe(
+      'Storm <mark>Weather</mark> Control now lasts longer.',
+    );
+  });
+
+  it('should keep the previous documents when a reindex fails', async () => {
+    responses = [
+      {
+        data: [{ id: 'hero-hulk', name: 'Hulk', lore: null, game_id: 'g' }],
+        error: null,
+      },
+    ];
+    await service.reindex([SearchEntityType.Hero]);
+
+    responses = [{ data: null, error: { message: 'connection refused' } }];
+    await service.reindex([SearchEntityType.Hero]);
+
+    expect(service.search({ q: 'hulk', page: 1, limit: 20 }).total).toBe(1);
+  });
+
+  it('should reject queries without words', () => {
+    expect(() => service.search({ q: ' ?! ', page: 1, limit: 20 })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { SupabaseService } from 'src/supabase/supabase.service';
+import { PaginatedResponse, toRange } from 'src/common/pagination';
+import {
+  SearchDocument,
+  SearchEntityType,
+  SearchIndex,
+  tokenize,
+} from './search-index';
+import { SearchQuery, SearchResultDto } from './dto/search.dto';
+
+interface IndexedHero {
+  id: string;
+  name: string;
+  lore: string | null;
+  game_id: string;
+}
+
+/**
+ * Serves full-text search from an in-memory index of heroes, abilities and
+ * news, without needing search support in the database. The index is built
+ * from Supabase on startup and rebuilt per entity type after a scrape job on
+ * this instance writes that type; other instances keep serving their index
+ * until they restart or run a scrape themselves.
+ */
+@Injectable()
+export class SearchService implements OnModuleInit {
+  private readonly logger = new Logger(SearchService.name);
+
+  private readonly index = new SearchIndex();
+  // Supabase returns at most this many rows per request
+  private readonly batchSize = 1000;
+  // Rebuilds run one after another so a slow one never overwrites a newer one
+  private rebuilding: Promise<void> = Promise.resolve();
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  onModuleInit() {
+    // Not awaited: the API starts with an empty index rather than waiting
+    void this.reindex(Object.values(SearchEntityType));
+  }
+
+  /**
+   * Reloads all documents of `types`. Failures are logged and leave the
+   * previous documents of that type searchable.
+   */
+  reindex(types: SearchEntityType[]): Promise<void> {
+    this.rebuilding = this.rebuilding.then(() => this.rebuild(types));
+    return this.rebuilding;
+  }
+
+  search(query: SearchQuery): PaginatedResponse<SearchResultDto> {
+    const [from, to] = toRange(query.page, query.limit);
+
+    if (tokenize(query.q ?? '').length === 0) {
+      throw new BadRequestException('q must contain at least one word');
+    }
+
+    const hits = this.index.search(query.q, {
+      types: query.types,
+      gameId: query.game_id,
+    });
+
+    return {
+      data: hits.slice(from, to + 1).map(({ document, score, snippet }) => ({
+        type: document.type,
+        id: document.id,
+        game_id: document.game_id,
+        title: document.title,
+        snippet,
+        score,
+        hero_id: document.hero_id,
+        url: document.url,
+      })),
+      page: query.page,
+      limit: query.limit,
+      total: hits.length,
+    };
+  }
+
+  private async rebuild(types: SearchEntityType[]) {
+    let heroes: IndexedHero[] = null;
+    for (const type of types) {
+      try {
+        let documents: SearchDocument[];
+        if (type === SearchEntityType.News) {
+          documents = await this.loadNews();
+        } else {
+          heroes ??= await this.fetchAll<IndexedHero>(
+            'marvel_rivals_heroes',
+            'id, name, lore, game_id',
+          );
+          documents =
+            type === SearchEntityType.Hero
+              ? this.toHeroDocuments(heroes)
+              : await this.loadAbilities(heroes);
+        }
+
+        this.index.replaceType(type, documents);
+        this.logger.log(`Indexed ${documents.length} ${type} documents.`);
+      } catch (error) {
+        this.logger.error(`Error indexing ${type} documents: ${error.message}`);
+      }
+    }
+  }
+
+  private toHeroDocuments(heroes: IndexedHero[]): SearchDocument[] {
+    return heroes.map((hero) => ({
+      type: SearchEntityType.Hero,
+      id: hero.id,
+      game_id: hero.game_id,
+      title: hero.name,
+      body: hero.lore ?? '',
+      hero_id: null,
+      url: null,
+    }));
+  }
+
+  private async loadAbilities(
+    heroes: IndexedHero[],
+  ): Promise<SearchDocument[]> {
+    const heroesById = new Map(heroes.map((hero) => [hero.id, hero]));
+    const abilities = await this.fetchAll<{
+      id: string;
+      hero_id: string;
+      name: string;
+      description: string;
+    }>('marvel_rivals_abilities', 'id, hero_id, name, description', true);
+
+    // Abilities of heroes that are gone have nothing to link to
+    return abilities
+      .filter((ability) => heroesById.has(ability.hero_id))
+      .map((ability) => {
+        const hero = heroesById.get(ability.hero_id);
+        return {
+          type: SearchEntityType.Ability,
+          id: ability.id,
+          game_id: hero.game_id,
+          title: `${hero.name}: ${ability.name}`,
+          body: ability.description ?? '',
+          hero_id: hero.id,
+          url: null,
+        };
+      });
+  }
+
+  private async loadNews(): Promise<SearchDocument[]> {
+    const news = await this.fetchAll<{
+      id: string;
+      title: string;
+      content: string | null;
+      body_markdown: string | null;
+      game_id: string;
+      url: string;
+    }>('news', 'id, title, content, body_markdown, game_id, url');
+
+    return news.map((item) => ({
+      type: SearchEntityType.News,
+      id: item.id,
+      game_id: item.game_id,
+      title: item.title,
+      body: markdownToText(item.body_markdown ?? item.content ?? ''),
+      hero_id: null,
+      url: item.url,
+    }));
+  }
+
+  private async fetchAll<T>(
+    table: string,
+    columns: string,
+    activeOnly = false,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += this.batchSize) {
+      let request = this.supabaseService
+        .getClient()
+        .from(table)
+        .select(columns);
+      if (activeOnly) {
+        request = request.is('retired_at', null);
+      }
+
+      const { data, error } = await request
+        .order('id')
+        .range(from, from + this.batchSize - 1);
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      rows.push(...((data ?? []) as T[]));
+      if (!data || data.length < this.batchSize) {
+        return rows;
+      }
+    }
+  }
+}
+
+/**
+ * Drops Markdown syntax that would otherwise show up in snippets: image
+ * embeds, link targets, headings, emphasis and list or quote markers.
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]+/g, '')
+    .replace(/\|/g, ' ');
+}
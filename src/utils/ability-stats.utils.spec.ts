@@ -0,0 +1,141 @@
+import { AbilityStatKey, StatUnit } from 'src/domain/ability.model';
+import { AbilityStatsUtils } from './ability-stats.utils';
+
+describe('AbilityStatsUtils', () => {
+  describe('normalizeKey', () => {
+    it('should map snake_case, camelCase and label forms to one key', () => {
+      expect(AbilityStatsUtils.normalizeKey('projectile_speed')).toBe(
+        AbilityStatKey.ProjectileSpeed,
+      );
+      expect(AbilityStatsUtils.normalizeKey('projectileSpeed')).toBe(
+        AbilityStatKey.ProjectileSpeed,
+      );
+      expect(AbilityStatsUtils.normalizeKey('Projectile Speed:')).toBe(
+        AbilityStatKey.ProjectileSpeed,
+      );
+    });
+
+    it('should map aliases onto the canonical vocabulary', () => {
+      expect(AbilityStatsUtils.normalizeKey('max_distance')).toBe(
+        AbilityStatKey.Range,
+      );
+      expect(AbilityStatsUtils.normalizeKey('Attack Interval')).toBe(
+        AbilityStatKey.AttackInterval,
+      );
+      expect(AbilityStatsUtils.normalizeKey('Rate of Fire')).toBe(
+        AbilityStatKey.FireRate,
+      );
+      expect(AbilityStatsUtils.normalizeKey('Spell Field')).toBe(
+        AbilityStatKey.AreaRadius,
+      );
+    });
+
+    it('should snake_case labels outside the vocabulary', () => {
+      expect(AbilityStatsUtils.normalizeKey('Slow Rate')).toBe('slow_rate');
+    });
+  });
+
+  describe('parseValue', () => {
+    it.each([
+      ['6s', 6, StatUnit.Seconds],
+      ['30/s', 30, StatUnit.PerSecond],
+      ['45 damage per second', 45, StatUnit.PerSecond],
+      ['15m', 15, StatUnit.Meters],
+      ['120 m/s', 120, StatUnit.MetersPerSecond],
+      ['20%', 20, StatUnit.Percent],
+      ['3,400', 3400, null],
+    ])('should parse "%s"', (raw, value, unit) => {
+      expect(AbilityStatsUtils.parseValue(raw)).toEqual(
+        expect.objectContaining({ value, unit, raw }),
+      );
+    });
+
+    it('should keep trailing text as the value label', () => {
+      expect(AbilityStatsUtils.parseValue('0.5s per round').values).toEqual([
+        { value: 0.5, unit: StatUnit.Seconds, label: 'per round' },
+      ]);
+    });
+
+    it('should split multi-stage values and share the trailing unit', () => {
+      expect(AbilityStatsUtils.parseValue('20/40/60s')).toEqual({
+        value: 20,
+        unit: StatUnit.Seconds,
+        values: [
+          { value: 20, unit: StatUnit.Seconds, label: null },
+          { value: 40, unit: StatUnit.Seconds, label: null },
+          { value: 60, unit: StatUnit.Seconds, label: null },
+        ],
+        raw: '20/40/60s',
+      });
+    });
+
+    it('should parse labelled stages', () => {
+      expect(
+        AbilityStatsUtils.parseValue('Stage 1: 40, Stage 2: 80 + 10/s').values,
+      ).toEqual([
+        { value: 40, unit: null, label: 'Stage 1' },
+        { value: 80, unit: null, label: 'Stage 2' },
+        { value: 10, unit: StatUnit.PerSecond, label: null },
+      ]);
+    });
+
+    it('should return no values for text without numbers', () => {
+      expect(AbilityStatsUtils.parseValue('Projectile')).toEqual({
+        value: null,
+        unit: null,
+        values: [],
+        raw: 'Projectile',
+      });
+    });
+  });
+
+  describe('normalize', () => {
+    it('should keep prose stats as raw text only', () => {
+      expect(
+        AbilityStatsUtils.normalize({
+          special_effect: 'Tornado grants a 20% Movement Speed Boost.',
+          cooldown: '2s',
+        }),
+      ).toEqual({
+        special_effect: {
+          value: null,
+          unit: null,
+          values: [],
+          raw: 'Tornado grants a 20% Movement Speed Boost.',
+        },
+        cooldown: {
+          value: 2,
+          unit: StatUnit.Seconds,
+          values: [{ value: 2, unit: StatUnit.Seconds, label: null }],
+          raw: '2s',
+        },
+      });
+    });
+
+    it('should not store a fire rate as an attack interval', () => {
+      const stats = AbilityStatsUtils.normalize({
+        'Fire Rate': '2 rounds/s',
+      });
+
+      expect(stats[AbilityStatKey.AttackInterval]).toBeUndefined();
+      expect(stats[AbilityStatKey.FireRate]).toEqual(
+        expect.objectContaining({ value: 2, raw: '2 rounds/s' }),
+      );
+    });
+
+    it('should store a fire rate given in seconds as an attack interval', () => {
+      expect(
+        AbilityStatsUtils.normalize({ 'Fire Rate': '0.5s per round' }),
+      ).toEqual({
+        attack_interval: expect.objectContaining({
+          value: 0.5,
+          unit: StatUnit.Seconds,
+        }),
+      });
+    });
+
+    it('should drop empty values', () => {
+      expect(AbilityStatsUtils.normalize({ damage: ' ' })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  AbilityStat,
+  AbilityStatKey,
+  AbilityStats,
+  StatUnit,
+  StatValue,
+} from 'src/domain/ability.model';
+
+// Wiki labels (lowercased, words separated by single spaces) per canonical key
+const STAT_ALIASES: Record<string, AbilityStatKey> = {
+  damage: AbilityStatKey.Damage,
+  'damage per second': AbilityStatKey.Damage,
+  'damage per round': AbilityStatKey.Damage,
+  'damage per hit': AbilityStatKey.Damage,
+  healing: AbilityStatKey.Healing,
+  'healing amount': AbilityStatKey.Healing,
+  'healing per second': AbilityStatKey.Healing,
+  cooldown: AbilityStatKey.Cooldown,
+  duration: AbilityStatKey.Duration,
+  'ability duration': AbilityStatKey.Duration,
+  range: AbilityStatKey.Range,
+  'max distance': AbilityStatKey.Range,
+  'maximum distance': AbilityStatKey.Range,
+  'maximum range': AbilityStatKey.Range,
+  'max range': AbilityStatKey.Range,
+  distance: AbilityStatKey.Range,
+  'spell field': AbilityStatKey.AreaRadius,
+  'explosion range': AbilityStatKey.AreaRadius,
+  'explosion radius': AbilityStatKey.AreaRadius,
+  radius: AbilityStatKey.AreaRadius,
+  'projectile speed': AbilityStatKey.ProjectileSpeed,
+  'attack interval': AbilityStatKey.AttackInterval,
+  'fire rate': AbilityStatKey.FireRate,
+  'rate of fire': AbilityStatKey.FireRate,
+  ammo: AbilityStatKey.Ammo,
+  'maximum ammo': AbilityStatKey.Ammo,
+  charges: AbilityStatKey.Charges,
+  'max charges': AbilityStatKey.Charges,
+  'energy cost': AbilityStatKey.EnergyCost,
+  cost: AbilityStatKey.EnergyCost,
+  'movement boost': AbilityStatKey.MovementBoost,
+  'movement speed boost': AbilityStatKey.MovementBoost,
+  'damage reduction': AbilityStatKey.DamageReduction,
+  shield: AbilityStatKey.Shield,
+  'shield value': AbilityStatKey.Shield,
+  'shield health': AbilityStatKey.Shield,
+  'bonus health': AbilityStatKey.BonusHealth,
+  'critical hit': AbilityStatKey.CriticalHit,
+  'critical damage': AbilityStatKey.CriticalHit,
+  casting: AbilityStatKey.Casting,
+  'special effect': AbilityStatKey.SpecialEffect,
+  properties: AbilityStatKey.Properties,
+};
+
+// Stats that are prose; numbers inside them are not the stat's value
+const TEXT_STATS = new Set<string>([
+  AbilityStatKey.Casting,
+  AbilityStatKey.SpecialEffect,
+  AbilityStatKey.Properties,
+]);
+
+// Checked in order, so longer units must come before their prefixes
+const UNIT_PATTERNS: Array<[RegExp, StatUnit]> = [
+  [/^(m\/s|meters? per second|metres? per second)\b/, StatUnit.MetersPerSecond],
+  [/^(\/\s*s\b|\/\s*sec\b|per second\b)/, StatUnit.PerSecond],
+  [/^%/, StatUnit.Percent],
+  [/^(s|secs?|seconds?)\b/, StatUnit.Seconds],
+  [/^(m|meters?|metres?)\b/, StatUnit.Meters],
+];
+
+const NUMBER = /(\d+(?:\.\d+)?)/;
+
+export class AbilityStatsUtils {
+  /**
+   * Maps scraped stat labels onto the canonical vocabulary and parses their
+   * values. Accepts labels in any of the forms the wiki parsers produce
+   * ("Projectile Speed", "projectile_speed", "projectileSpeed").
+   */
+  static normalize(rawStats: Record<string, string>): AbilityStats {
+    const stats: AbilityStats = {};
+
+    for (const [label, raw] of Object.entries(rawStats)) {
+      if (typeof raw !== 'string' || raw.trim() === '') {
+        continue;
+      }
+
+      let key = this.normalizeKey(label);
+      const stat = TEXT_STATS.has(key)
+        ? { value: null, unit: null, values: [], raw: raw.trim() }
+        : this.parseValue(raw);
+      // "Fire Rate - 0.5s per round" gives the time between shots
+      if (key === AbilityStatKey.FireRate && stat.unit === StatUnit.Seconds) {
+        key = AbilityStatKey.AttackInterval;
+      }
+      if (!key || stats[key]) {
+        // Keep the first occurrence when two labels share a canonical key
+        continue;
+      }
+
+      stats[key] = stat;
+    }
+
+    return stats;
+  }
+
+  static normalizeKey(label: string): string {
+    const words = label
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+
+    return STAT_ALIASES[words] ?? words.replace(/ /g, '_');
+  }
+
+  /**
+   * Parses stat text such as "6s", "30/s", "10m spherical radius",
+   * "0.5s per round" or "20/40/60 m/s" into numbers with units.
+   */
+  static parseValue(raw: string): AbilityStat {
+    const text = raw.trim().replace(/(\d),(\d{3})\b/g, '$1$2');
+
+    // Stages are separated by commas, semicolons, " + " or "/" between numbers
+    const values = text
+      .split(/[,;]|\s\+\s|\/(?=\s*\d)/)
+      .map((segment) => this.parseSegment(segment))
+      .filter((value): value is StatValue => value !== null);
+
+    // "20/40/60s" only carries the unit on the last stage
+    const lastUnit = [...values].reverse().find((value) => value.unit)?.unit;
+    for (const value of values) {
+      if (!value.unit && !value.label && lastUnit) {
+        value.unit = lastUnit;
+      }
+    }
+
+    return {
+      value: values[0]?.value ?? null,
+      unit: values[0]?.unit ?? null,
+      values,
+      raw: raw.trim(),
+    };
+  }
+
+  private static parseSegment(segment: string): StatValue | null {
+    // "Stage 1: 40" labels the value after the colon
+    const colon = segment.lastIndexOf(':');
+    const prefix = colon === -1 ? '' : segment.slice(0, colon);
+    const body = colon === -1 ? segment : segment.slice(colon + 1);
+
+    const match = NUMBER.exec(body);
+    if (!match) {
+      return null;
+    }
+
+    let rest = body.slice(match.index + match[0].length).trim();
+    let unit: StatUnit | null = null;
+    for (const [pattern, candidate] of UNIT_PATTERNS) {
+      const unitMatch = pattern.exec(rest.toLowerCase());
+      if (unitMatch) {
+        unit = candidate;
+        rest = rest.slice(unitMatch[0].length).trim();
+        break;
+      }
+    }
+    if (!unit && /\bper second\b/i.test(rest)) {
+      // "45 damage per second"
+      unit = StatUnit.PerSecond;
+    }
+
+    const label = [prefix, body.slice(0, match.index), rest]
+      .map((part) => part.replace(/^[\s:()-]+|[\s:()-]+$/g, ''))
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      value: parseFloat(match[1]),
+      unit,
+      label: label || null,
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { HtmlUtils } from './html.utils';
+
+describe('HtmlUtils', () => {
+  const baseUrl = 'https://www.marvelrivals.com/news/20241206/1.html';
+
+  describe('sanitize', () => {
+    it('should drop scripts, embeds and event handlers', () => {
+      expect(
+        HtmlUtils.sanitize(
+          '<p onclick="x()" class="a">Hi<script>alert(1)</script></p><iframe src="https://x"></iframe>',
+          baseUrl,
+        ),
+      ).toBe('<p>Hi</p>');
+    });
+
+    it('should unwrap unknown tags but keep their text', () => {
+      expect(
+        HtmlUtils.sanitize(
+          '<div><span>Season <em>1</em></span></div>',
+          baseUrl,
+        ),
+      ).toBe('Season <em>1</em>');
+    });
+
+    it('should resolve relative urls and drop unsafe ones', () => {
+      expect(
+        HtmlUtils.sanitize(
+          '<a href="/news/">News</a><a href="javascript:alert(1)">x</a><img src="data:image/png;base64,AA">',
+          baseUrl,
+        ),
+      ).toBe('<a href="https://www.marvelrivals.com/news/">News</a><a>x</a>');
+    });
+  });
+
+  describe('toMarkdown', () => {
+    it('should convert headings, emphasis, links and lists', () => {
+      expect(
+        HtmlUtils.toMarkdown(
+          '<h2>Hulk</h2><p>Damage <strong>up</strong>, see <a href="https://a.b/">notes</a>.</p><ol><li>One</li><li>Two</li></ol>',
+        ),
+      ).toBe(
+        '## Hulk\n\nDamage **up**, see [notes](https://a.b/).\n\n1. One\n2. Two',
+      );
+    });
+
+    it('should convert tables and line breaks', () => {
+      expect(
+        HtmlUtils.toMarkdown(
+          '<table><tr><th>Hero</th><th>Change</th></tr><tr><td>Storm</td><td>a | b</td></tr></table><p>Line<br>Next</p>',
+        ),
+      ).toBe(
+        '| Hero | Change |\n| --- | --- |\n| Storm | a \\| b |\n\nLine  \nNext',
+      );
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import * as cheerio from 'cheerio';
+import { CheerioAPI } from 'cheerio';
+import { AnyNode, Element } from 'domhandler';
+
+// Tags kept in sanitized article bodies, with the attributes they may keep
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [],
+  br: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  u: [],
+  ul: [],
+  ol: [],
+  li: [],
+  blockquote: [],
+  a: ['href'],
+  img: ['src', 'alt'],
+  figure: [],
+  figcaption: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tr: [],
+  th: ['colspan', 'rowspan'],
+  td: ['colspan', 'rowspan'],
+};
+
+// Removed together with their content; other unknown tags are unwrapped
+const DROPPED_TAGS =
+  'script, style, noscript, iframe, object, embed, form, input, button, select, textarea, svg, canvas, video, audio, link, meta';
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+export class HtmlUtils {
+  /**
+   * Reduces scraped HTML to a small allowlist of formatting tags. Links and
+   * images are resolved against `baseUrl` and dropped unless they are
+   * http(s); all other attributes are removed.
+   */
+  static sanitize(html: string, baseUrl: string): string {
+    const $ = cheerio.load(html, null, false);
+
+    $(DROPPED_TAGS).remove();
+    $('*')
+      .add($.root())
+      .contents()
+      .filter((_, node) => node.type === 'comment')
+      .remove();
+
+    // Deepest elements first so unwrapping never skips a descendant
+    for (const element of $('*').toArray().reverse() as Element[]) {
+      const tag = element.tagName.toLowerCase();
+      const allowed = ALLOWED_TAGS[tag];
+
+      if (!allowed) {
+        $(element).replaceWith($(element).contents());
+        continue;
+      }
+
+      for (const name of Object.keys(element.attribs)) {
+        const value = element.attribs[name];
+        if (!allowed.includes(name)) {
+          $(element).removeAttr(name);
+        } else if (URL_ATTRIBUTES.has(name)) {
+          const url = this.resolveHttpUrl(value, baseUrl);
+          if (url) {
+            $(element).attr(name, url);
+          } else {
+            $(element).removeAttr(name);
+          }
+        }
+      }
+
+      if (tag === 'img' && !$(element).attr('src')) {
+        $(element).remove();
+      }
+    }
+
+    return $.html()
+      .replace(/\n\s*\n+/g, '\n')
+      .trim();
+  }
+
+  /**
+   * Converts sanitized HTML (see sanitize()) to Markdown.
+   */
+  static toMarkdown(html: string): string {
+    const $ = cheerio.load(html, null, false);
+    const markdown = $.root()
+      .contents()
+      .toArray()
+      .map((node) => this.nodeToMarkdown($, node))
+      .join('');
+
+    return (
+      markdown
+        // Two trailing spaces are a hard line break; any other trailing space goes
+        .replace(/[ \t]+\n/g, (match) => (match.length > 2 ? '  \n' : '\n'))
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+    );
+  }
+
+  /**
+   * Returns the image URLs of sanitized HTML in document order, without
+   * duplicates.
+   */
+  static extractImages(html: string): string[] {
+    const $ = cheerio.load(html, null, false);
+    const images = $('img')
+      .map((_, img) => $(img).attr('src'))
+      .get()
+      .filter(Boolean);
+    return [...new Set(images)];
+  }
+
+  private static resolveHttpUrl(value: string, baseUrl: string): string | null {
+    try {
+      const url = new URL(value.trim(), baseUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:'
+        ? url.toString()
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static nodeToMarkdown($: CheerioAPI, node: AnyNode): string {
+    if (node.type === 'text') {
+      return $(node).text().replace(/\s+/g, ' ');
+    }
+    if (node.type !== 'tag') {
+      return '';
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const inner = () =>
+      $(element)
+        .contents()
+        .toArray()
+        .map((child) => this.nodeToMarkdown($, child))
+        .join('');
+
+    switch (tag) {
+      case 'p':
+      case 'figure':
+        return `\n\n${inner().trim()}\n\n`;
+      case 'figcaption':
+        return `\n\n_${inner().trim()}_\n\n`;
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return `\n\n${'#'.repeat(Number(tag[1]))} ${inner().trim()}\n\n`;
+      case 'br':
+        return '  \n';
+      case 'strong':
+      case 'b': {
+        const text = inner().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'em':
+      case 'i': {
+        const text = inner().trim();
+        return text ? `_${text}_` : '';
+      }
+      case 'a': {
+        const text = inner().trim();
+        const href = $(element).attr('href');
+        return href ? `[${text || href}](${href})` : text;
+      }
+      case 'img':
+        return `![${$(element).attr('alt') ?? ''}](${$(element).attr('src')})`;
+      case 'ul':
+      case 'ol':
+        return `\n\n${this.listToMarkdown($, element, tag === 'ol')}\n\n`;
+      case 'blockquote':
+        return `\n\n${inner()
+          .trim()
+          .split('\n')
+          .map((line) => `> ${line}`.trimEnd())
+          .join('\n')}\n\n`;
+      case 'table':
+        return `\n\n${this.tableToMarkdown($, element)}\n\n`;
+      default:
+        return inner();
+    }
+  }
+
+  private static listToMarkdown(
+    $: CheerioAPI,
+    list: Element,
+    ordered: boolean,
+  ): string {
+    return $(list)
+      .children('li')
+      .toArray()
+      .map((item, index) => {
+        const text = $(item)
+          .contents()
+          .toArray()
+          .map((child) => this.nodeToMarkdown($, child))
+          .join('')
+          .trim()
+          .replace(/\n+/g, '\n   ');
+        return `${ordered ? `${index + 1}.` : '-'} ${text}`;
+      })
+      .join('\n');
+  }
+
+  private static tableToMarkdown($: CheerioAPI, table: Element): string {
+    const rows = $(table)
+      .find('tr')
+      .toArray()
+      .map((row) =>
+        $(row)
+          .children('th, td')
+          .toArray()
+          .map((cell) => $(cell).text().replace(/\s+/g, ' ').trim())
+          .map((text) => text.replace(/\|/g, '\\|')),
+      )
+      .filter((cells) => cells.length > 0);
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const width = Math.max(...rows.map((cells) => cells.length));
+    const line = (cells: string[]) =>
+      `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+
+    return [
+      line(rows[0]),
+      line(Array(width).fill('---')),
+      ...rows.slice(1).map(line),
+    ].join('\n');
+  }
+}
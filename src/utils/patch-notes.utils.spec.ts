@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Logger } from '@nestjs/common';
+import { PatchChangeType } from 'src/domain/patch.model';
+import { PatchNotesUtils } from './patch-notes.utils';
+import { ScrapingUtils } from './scraping.utils';
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('PatchNotesUtils', () => {
+  const heroNames = ['Hulk', 'Storm', 'Groot', 'Mantis'];
+
+  describe('extractVersion', () => {
+    it('should read the version from the title or the url', () => {
+      expect(
+        PatchNotesUtils.extractVersion('Version 20241220 Patch Notes', ''),
+      ).toBe('20241220');
+      expect(
+        PatchNotesUtils.extractVersion(
+          'Winter Celebration Update',
+          'https://www.marvelrivals.com/gameupdate/20241227/41211_1.html',
+        ),
+      ).toBe('20241227');
+      expect(PatchNotesUtils.extractVersion('Hotfix', '')).toBeNull();
+    });
+  });
+
+  describe('extractEntries', () => {
+    const article = ScrapingUtils.extractNewsArticle(
+      new Logger('test'),
+      fixture('patch-notes.html'),
+      'https://www.marvelrivals.com/gameupdate/20241220/41211_1.html',
+    );
+    const entries = PatchNotesUtils.extractEntries(
+      article.body_html,
+      heroNames,
+    );
+
+    it('should attribute entries to heroes and abilities', () => {
+      expect(
+        entries.map((entry) => [entry.hero_name, entry.ability_name]),
+      ).toEqual([
+        ['Hulk', 'Gamma Burst'],
+        ['Hulk', 'Incredible Leap'],
+        ['Storm', 'Wind Blade'],
+        ['Storm', 'Wind Blade'],
+        ['Groot', 'Ironwood Wall'],
+        [null, null],
+        ['Mantis', null],
+      ]);
+    });
+
+    it('should classify buffs, nerfs and bug fixes', () => {
+      expect(entries.map((entry) => entry.change_type)).toEqual([
+        PatchChangeType.Buff,
+        // A shorter cooldown helps the hero
+        PatchChangeType.Buff,
+        PatchChangeType.Nerf,
+        PatchChangeType.Adjustment,
+        PatchChangeType.Nerf,
+        PatchChangeType.BugFix,
+        PatchChangeType.BugFix,
+      ]);
+    });
+
+    it('should extract the stat and values of numeric changes', () => {
+      expect(entries[1]).toEqual({
+        hero_name: 'Hulk',
+        ability_name: 'Incredible Leap',
+        stat: 'cooldown',
+        old_value: '8s',
+        new_value: '6s',
+        change_type: PatchChangeType.Buff,
+        description: 'Incredible Leap: Cooldown reduced from 8s to 6s.',
+      });
+      expect(entries[2]).toEqual(
+        expect.objectContaining({
+          stat: 'projectile_speed',
+          old_value: '150m/s',
+          new_value: '120m/s',
+        }),
+      );
+      expect(entries[4]).toEqual(
+        expect.objectContaining({
+          stat: 'wall_health',
+          old_value: '500',
+          new_value: '450',
+        }),
+      );
+    });
+
+    it('should treat a higher fire rate as a buff', () => {
+      const fireRateEntries = PatchNotesUtils.extractEntries(
+        '<h3>Storm</h3><ul>' +
+          '<li>Fire rate increased from 2 to 3 rounds per second.</li>' +
+          '<li>Fire rate decreased from 3 to 2 rounds per second.</li>' +
+          '<li>Fire rate reduced from 0.5s to 0.4s per round.</li>' +
+          '</ul>',
+        heroNames,
+      );
+
+      expect(
+        fireRateEntries.map((entry) => [entry.stat, entry.change_type]),
+      ).toEqual([
+        ['fire_rate', PatchChangeType.Buff],
+        ['fire_rate', PatchChangeType.Nerf],
+        // Given in seconds, so the time between shots got shorter
+        ['attack_interval', PatchChangeType.Buff],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import * as cheerio from 'cheerio';
+import { Element } from 'domhandler';
+import { AbilityStatKey, StatUnit } from 'src/domain/ability.model';
+import { PatchChangeType } from 'src/domain/patch.model';
+import { AbilityStatsUtils } from './ability-stats.utils';
+
+export interface ParsedPatchEntry {
+  hero_name: string | null;
+  ability_name: string | null;
+  stat: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  change_type: PatchChangeType;
+  description: string;
+}
+
+// Stats where a smaller number helps the hero
+const LOWER_IS_BETTER = new Set<string>([
+  AbilityStatKey.Cooldown,
+  AbilityStatKey.AttackInterval,
+  AbilityStatKey.EnergyCost,
+  'recovery',
+  'reload_time',
+  'spread',
+  'cast_time',
+  'charge_time',
+  'windup',
+]);
+
+const VALUE = String.raw`\d+(?:\.\d+)?\s*(?:m\/s|\/s|%|s|m|seconds?|meters?)?`;
+
+// "from 40 to 45", "40 → 45", "40 -> 45"
+const VALUE_CHANGE = new RegExp(
+  String.raw`(?:from\s+)?(${VALUE})\s*(?:→|->|=>|\bto\b)\s*(${VALUE})`,
+  'i',
+);
+
+const VERBS =
+  /\b(increased?|decreased?|reduced?|raised?|lowered?|adjusted?|changed?|buffed?|nerfed?|from|by)\b/gi;
+
+const BUG_FIX = /\b(fix(ed|es)?|bug|issue)\b/i;
+const UP_WORDS = /\b(increase|raise|buff|improve|extend|faster|more)\w*/i;
+const DOWN_WORDS = /\b(decrease|reduce|nerf|lower|shorten|slower|less)\w*/i;
+
+export class PatchNotesUtils {
+  /**
+   * Reads the version from a patch article title ("Version 20241206 Patch
+   * Notes") or, failing that, the date segment of its URL.
+   */
+  static extractVersion(title: string, url: string): string | null {
+    return (
+      title.match(/version\s*(\d{8}|\d+(?:\.\d+)+)/i)?.[1] ??
+      url.match(/\/(\d{8})\//)?.[1] ??
+      null
+    );
+  }
+
+  /**
+   * Splits a sanitized patch article body into change entries. Headings and
+   * bold-only paragraphs set the current hero (when they name one of
+   * `heroNames`) or section; list items, and paragraphs under a hero, become
+   * entries.
+   */
+  static extractEntries(
+    bodyHtml: string,
+    heroNames: string[],
+  ): ParsedPatchEntry[] {
+    const $ = cheerio.load(bodyHtml, null, false);
+    const entries: ParsedPatchEntry[] = [];
+
+    let hero: string | null = null;
+    let bugFixSection = false;
+
+    for (const element of $('h2, h3, h4, h5, h6, p, li').toArray()) {
+      const node = $(element);
+      // Paragraphs inside list items are read as part of the item
+      if (element.tagName === 'p' && node.parents('li').length > 0) {
+        continue;
+      }
+
+      const text = this.ownText($, element);
+      if (!text) {
+        continue;
+      }
+
+      // "<li>Gamma Burst<ul><li>Damage ...</li></ul></li>" only names the
+      // ability for its nested items
+      if (
+        element.tagName === 'li' &&
+        node.children('ul, ol').length > 0 &&
+        !VALUE_CHANGE.test(text) &&
+        text.length <= 60
+      ) {
+        continue;
+      }
+
+      if (this.isHeading($, element)) {
+        const headingHero = this.matchHero(text, heroNames);
+        if (headingHero) {
+          hero = headingHero;
+        } else {
+          hero = null;
+          bugFixSection = BUG_FIX.test(text);
+        }
+        continue;
+      }
+
+      if (element.tagName === 'p' && !hero) {
+        // Intro and outro paragraphs
+        continue;
+      }
+
+      const parentItem = node.parents('li').first();
+      const parentAbility =
+        parentItem.length > 0
+          ? this.ownText($, parentItem.get(0)).replace(/:$/, '')
+          : null;
+
+      entries.push(
+        this.parseLine(text, hero, parentAbility, bugFixSection, heroNames),
+      );
+    }
+
+    return entries;
+  }
+
+  // Text of an element without its nested lists, which are read separately
+  private static ownText($: cheerio.CheerioAPI, element: Element): string {
+    return $(element)
+      .clone()
+      .children('ul, ol')
+      .remove()
+      .end()
+      .text()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static isHeading($: cheerio.CheerioAPI, element: Element): boolean {
+    if (/^h[2-6]$/.test(element.tagName)) {
+      return true;
+    }
+    if (element.tagName !== 'p') {
+      return false;
+    }
+    // <p><b>Hulk</b></p>
+    const node = $(element);
+    const bold = node.children('b, strong');
+    return (
+      bold.length === 1 &&
+      bold.text().replace(/\s+/g, ' ').trim() ===
+        node.text().replace(/\s+/g, ' ').trim()
+    );
+  }
+
+  private static matchHero(text: string, heroNames: string[]): string | null {
+    const lower = text.toLowerCase();
+    // Longest first so "Captain America" wins over "America"
+    return (
+      [...heroNames]
+        .sort((a, b) => b.length - a.length)
+        .find((name) =>
+          new RegExp(
+            `(^|[^a-z])${escapeRegExp(name.toLowerCase())}([^a-z]|$)`,
+          ).test(lower),
+        ) ?? null
+    );
+  }
+
+  private static parseLine(
+    text: string,
+    sectionHero: string | null,
+    parentAbility: string | null,
+    bugFixSection: boolean,
+    heroNames: string[],
+  ): ParsedPatchEntry {
+    let hero = sectionHero;
+    let ability: string | null = parentAbility;
+    let change = text;
+
+    // "Hulk: Gamma Burst: Damage increased from 40 to 45"
+    const parts = text.split(/:\s+/);
+    let prefixAbility = false;
+    while (parts.length > 1 && parts[0].length <= 60) {
+      const prefix = parts.shift().trim();
+      const prefixHero = prefixAbility
+        ? null
+        : this.matchHero(prefix, heroNames);
+      if (prefixHero) {
+        hero = prefixHero;
+      } else {
+        ability = prefix;
+        prefixAbility = true;
+      }
+      change = parts.join(': ');
+    }
+
+    const valueMatch = VALUE_CHANGE.exec(change);
+    const oldValue = valueMatch?.[1].trim() ?? null;
+    const newValue = valueMatch?.[2].trim() ?? null;
+
+    let stat: string | null = null;
+    if (valueMatch) {
+      const label = change
+        .slice(0, valueMatch.index)
+        .replace(VERBS, ' ')
+        .replace(/[^a-z0-9 ]/gi, ' ')
+        .trim();
+      stat = label ? AbilityStatsUtils.normalizeKey(label) : null;
+      // A fire rate in seconds is the time between shots, as in normalize()
+      if (
+        stat === AbilityStatKey.FireRate &&
+        AbilityStatsUtils.parseValue(oldValue).unit === StatUnit.Seconds
+      ) {
+        stat = AbilityStatKey.AttackInterval;
+      }
+    }
+
+    return {
+      hero_name: hero,
+      ability_name: ability,
+      stat,
+      old_value: oldValue,
+      new_value: newValue,
+      change_type: this.classify(
+        change,
+        stat,
+        oldValue,
+        newValue,
+        bugFixSection,
+      ),
+      description: text,
+    };
+  }
+
+  private static classify(
+    text: string,
+    stat: string | null,
+    oldValue: string | null,
+    newValue: string | null,
+    bugFixSection: boolean,
+  ): PatchChangeType {
+    if (bugFixSection || (!oldValue && BUG_FIX.test(text))) {
+      return PatchChangeType.BugFix;
+    }
+
+    let direction = 0;
+    if (oldValue && newValue) {
+      direction = Math.sign(parseFloat(newValue) - parseFloat(oldValue));
+    } else if (UP_WORDS.test(text) !== DOWN_WORDS.test(text)) {
+      direction = UP_WORDS.test(text) ? 1 : -1;
+    }
+
+    if (direction === 0) {
+      return PatchChangeType.Adjustment;
+    }
+    if (stat && LOWER_IS_BETTER.has(stat)) {
+      direction = -direction;
+    }
+    return direction > 0 ? PatchChangeType.Buff : PatchChangeType.Nerf;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,301 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  emptyHeroStats,
+  InfoboxFieldType,
+  validateHeroStats,
+} from 'src/domain/hero.model';
+import { DEFAULT_INFOBOX_FIELDS } from 'src/games/default-infobox-fields';
+import { ScrapingUtils } from './scraping.utils';
+
+// Saved pages live next to this spec so the suite never touches the network
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+describe('ScrapingUtils', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = {
+      log: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+      error: jest.fn(),
+    } as unknown as Logger;
+  });
+
+  describe('getHeroPageUrl', () => {
+    const wikiBaseUrl = 'https://marvelrivals.fandom.com/wiki/';
+
+    it('should build an encoded fandom wiki URL', () => {
+      expect(
+        ScrapingUtils.getHeroPageUrl(wikiBaseUrl, 'Jeff the Land Shark'),
+      ).toBe('https://marvelrivals.fandom.com/wiki/Jeff_the_Land_Shark');
+      expect(ScrapingUtils.getHeroPageUrl(wikiBaseUrl, 'Cloak & Dagger')).toBe(
+        'https://marvelrivals.fandom.com/wiki/Cloak_%26_Dagger',
+      );
+    });
+  });
+
+  describe('extractHeroList', () => {
+    it('should parse heroes per role from the heroes page', () => {
+      const result = ScrapingUtils.extractHeroList(
+        logger,
+        fixture('heroes-list.html'),
+      );
+
+      expect(result.sections).toBe(3);
+      expect(result.heroes.map((hero) => hero.name)).toEqual([
+        'Hulk',
+        'Groot',
+        'Storm',
+        'Mantis',
+      ]);
+      expect(result).toMatchSnapshot();
+    });
+
+    it('should report a page without role sections', () => {
+      const result = ScrapingUtils.extractHeroList(
+        logger,
+        '<html><body></body></html>',
+      );
+
+      expect(result).toEqual({ sections: 0, heroes: [], skipped: [] });
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('extractNewsList', () => {
+    it('should parse news cards and skip incomplete ones', () => {
+      const result = ScrapingUtils.extractNewsList(
+        logger,
+        fixture('news-list.html'),
+        'https://www.marvelrivals.com/news/',
+      );
+
+      expect(result.found).toBe(5);
+      expect(result.items).toHaveLength(3);
+      expect(result.skipped.map((item) => item.reason)).toEqual([
+        'No title found',
+        'No link found',
+      ]);
+      expect(result.nextPageUrl).toBe(
+        'https://www.marvelrivals.com/news/index_2.html',
+      );
+      expect(result).toMatchSnapshot();
+    });
+
+    it('should not return a next page from the last page', () => {
+      const result = ScrapingUtils.extractNewsList(
+        logger,
+        fixture('news-list-page-2.html'),
+        'https://www.marvelrivals.com/news/index_2.html',
+      );
+
+      expect(result.items).toHaveLength(1);
+      expect(result.nextPageUrl).toBeNull();
+    });
+  });
+
+  describe('extractNewsArticle', () => {
+    const articleUrl =
+      'https://www.marvelrivals.com/gameupdate/20241206/41211_1199600.html';
+
+    it('should extract a sanitized body, date, author and images', () => {
+      const article = ScrapingUtils.extractNewsArticle(
+        logger,
+        fixture('news-article.html'),
+        articleUrl,
+      );
+
+      expect(article.title).toBe('Version 20241206 Balance Post');
+      expect(article.published_at).toEqual(
+        new Date('2024-12-06T10:30:00.000Z'),
+      );
+      expect(article.author).toBe('Marvel Rivals Dev Team');
+      expect(article.images).toEqual([
+        'https://www.marvelrivals.com/file/patch-banner.png',
+      ]);
+      expect(article.body_html).not.toMatch(
+        /script|iframe|onclick|style=|javascript:|<h1|internal note/,
+      );
+      expect(article).toMatchSnapshot();
+    });
+
+    it('should return null for a page without an article body', () => {
+      expect(
+        ScrapingUtils.extractNewsArticle(
+          logger,
+          fixture('news-list.html'),
+          articleUrl,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('parseNewsDate', () => {
+    it.each([
+      ['2024/12/06', '2024-12-06T00:00:00.000Z'],
+      ['2024-12-06 18:05', '2024-12-06T18:05:00.000Z'],
+      ['20241206', '2024-12-06T00:00:00.000Z'],
+      ['2024-12-06T10:00:00+08:00', '2024-12-06T02:00:00.000Z'],
+    ])('should parse "%s"', (text, iso) => {
+      expect(ScrapingUtils.parseNewsDate(text)?.toISOString()).toBe(iso);
+    });
+
+    it.each(['', 'Coming soon', '2024/13/40'])('should reject "%s"', (text) => {
+      expect(ScrapingUtils.parseNewsDate(text)).toBeNull();
+    });
+  });
+
+  describe('extractHeroStats', () => {
+    it('should read every configured infobox field', () => {
+      const { stats, unparseable } = ScrapingUtils.extractHeroStats(
+        fixture('hero-skill-table.html'),
+        DEFAULT_INFOBOX_FIELDS,
+      );
+
+      expect(stats).toEqual({
+        health: 250,
+        difficulty: 3,
+        role: 'Duelist',
+        movement_speed: 6,
+        armor: null,
+        shields: null,
+        release_date: '2024-12-06',
+        season: 'Season 0: Dawn of Doom',
+        team_up_anchors: ['Thor'],
+        real_name: 'Ororo Munroe',
+        affiliations: ['X-Men', 'Avengers'],
+        first_appearance: 'Giant-Size X-Men #1 (1975)',
+        voice_actor: 'Jennifer Hale',
+      });
+      expect(unparseable).toEqual([]);
+    });
+
+    it('should leave stats empty without an infobox', () => {
+      const { stats, unparseable } = ScrapingUtils.extractHeroStats(
+        fixture('hero-legacy-aside.html'),
+        DEFAULT_INFOBOX_FIELDS,
+      );
+
+      expect(stats).toEqual(emptyHeroStats());
+      expect(unparseable).toEqual([]);
+    });
+
+    it('should report fields it cannot parse and read configured extras', () => {
+      const { stats, unparseable } = ScrapingUtils.extractHeroStats(
+        `<aside class="portable-infobox">
+          <div data-source="health"><div class="pi-data-value">Very high</div></div>
+          <div data-source="armor"><div class="pi-data-value">1,200.5</div></div>
+          <div data-source="ult_charge"><div class="pi-data-value">3,400 energy</div></div>
+        </aside>`,
+        [
+          ...DEFAULT_INFOBOX_FIELDS,
+          {
+            key: 'ultimate_cost',
+            sources: ['ult_charge'],
+            type: InfoboxFieldType.Integer,
+          },
+        ],
+      );
+
+      expect(stats.health).toBeNull();
+      expect(stats.armor).toBeNull();
+      expect(stats.ultimate_cost).toBe(3400);
+      expect(unparseable).toEqual([
+        {
+          key: 'health',
+          source: 'health',
+          raw: 'Very high',
+          reason: 'expected a number',
+        },
+        {
+          key: 'armor',
+          source: 'armor',
+          raw: '1,200.5',
+          reason: 'expected a whole number',
+        },
+      ]);
+    });
+
+    it('should drop out of range values and keep the other fields', () => {
+      const { stats, unparseable } = ScrapingUtils.extractHeroStats(
+        `<aside class="portable-infobox">
+          <div data-source="health"><div class="pi-data-value">0</div></div>
+          <div data-source="difficulty"><div class="pi-data-value"><img alt="StarEmpty"><img alt="StarEmpty"></div></div>
+          <div data-source="role"><div class="pi-data-value">Vanguard</div></div>
+          <div data-source="armor"><div class="pi-data-value">50</div></div>
+        </aside>`,
+        DEFAULT_INFOBOX_FIELDS,
+      );
+
+      expect(stats).toEqual(
+        expect.objectContaining({
+          health: null,
+          difficulty: null,
+          role: 'Vanguard',
+          armor: 50,
+        }),
+      );
+      expect(validateHeroStats(stats)).toEqual([]);
+      expect(unparseable).toEqual([
+        {
+          key: 'health',
+          source: 'health',
+          raw: '0',
+          reason: 'expected at least 1',
+        },
+        {
+          key: 'difficulty',
+          source: 'difficulty',
+          raw: '',
+          reason: 'expected between 1 and 5',
+        },
+      ]);
+    });
+  });
+
+  describe('buildAbilities', () => {
+    it('should link parsed abilities to the hero and normalize their stats', () => {
+      const [ability] = ScrapingUtils.buildAbilities(
+        'hero-storm',
+        [
+          {
+            name: 'Storm & Thor Team-Up',
+            type: 'Team-Up Passive',
+            description: 'Storm charges Thor.',
+            stats: { special_effect: 'Thor gains Thorforce', cooldown: '30s' },
+          },
+        ],
+        'marvel-rivals/abilities-skill-table@1',
+      );
+
+      expect(ability).toEqual({
+        hero_id: 'hero-storm',
+        name: 'Storm & Thor Team-Up',
+        slug: 'storm-thor-team-up',
+        type: 'Team-Up Passive',
+        description: 'Storm charges Thor.',
+        stats: {
+          special_effect: {
+            value: null,
+            unit: null,
+            values: [],
+            raw: 'Thor gains Thorforce',
+          },
+          cooldown: {
+            value: 30,
+            unit: 's',
+            values: [{ value: 30, unit: 's', label: null }],
+            raw: '30s',
+          },
+        },
+        team_up: true,
+        retired_at: null,
+        parser_version: 'marvel-rivals/abilities-skill-table@1',
+      });
+    });
+  });
+});
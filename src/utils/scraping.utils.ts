@@ -2,470 +2,605 @@ import { Logger } from '@nestjs/common';
 import * as cheerio from 'cheerio';
 import { CheerioAPI } from 'cheerio';
 import { AnyNode } from 'domhandler';
+import {
+  Ability,
+  abilitySlug,
+  isTeamUpAbility,
+} from 'src/domain/ability.model';
+import {
+  emptyHeroStats,
+  HERO_STAT_RANGES,
+  HeroStats,
+  HeroStatValue,
+  InfoboxField,
+  InfoboxFieldType,
+} from 'src/domain/hero.model';
+import { AbilityStatsUtils } from './ability-stats.utils';
+import { HtmlUtils } from './html.utils';
+
+export interface SkippedItem {
+  key: string;
+  reason: string;
+}
+
+export interface ParsedHero {
+  name: string;
+  image_url: string;
+  type: string;
+}
+
+/**
+ * An ability as read from a hero page, before it is linked to a hero and its
+ * stats are normalized (see buildAbilities()).
+ */
+export interface ParsedAbility {
+  name: string;
+  type: string;
+  description: string;
+  // Raw stat text keyed by the label found on the page
+  stats: Record<string, string>;
+}
+
+// An infobox field that is on the page but could not be read as its type
+export interface UnparseableStat {
+  key: string;
+  // The data-source it was read from
+  source: string;
+  raw: string;
+  reason: string;
+}
+
+export interface HeroStatsExtraction {
+  stats: HeroStats;
+  unparseable: UnparseableStat[];
+}
+
+export interface ParsedNewsItem {
+  url: string;
+  title: string;
+  content: string | null;
+  image_url: string | null;
+  // From the card's date label, or the date segment of the article URL
+  published_at: Date | null;
+}
+
+export interface ParsedNewsArticle {
+  title: string | null;
+  body_html: string;
+  body_markdown: string;
+  published_at: Date | null;
+  author: string | null;
+  images: string[];
+}
+
+// Tried in order; the official site has used several article templates
+const ARTICLE_BODY_SELECTORS = [
+  '.art-inner-content',
+  '.article-content',
+  '.news-detail .content',
+  'article',
+];
+
+const ARTICLE_DATE_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'time[datetime]',
+  '.art-time',
+  '.article-time',
+  '.time',
+];
+
+const NUMBER = /(-?\d+(?:\.\d+)?)/;
+
+// Pagination links of the listing pages, e.g. <a class="next" href="/news/index_2.html">
+const NEXT_PAGE_SELECTORS = [
+  'link[rel="next"]',
+  'a[rel="next"]',
+  '.page-box a.next',
+  '.pagination a.next',
+];
+
+const ARTICLE_AUTHOR_SELECTORS = [
+  'meta[name="author"]',
+  '.art-author',
+  '.article-author',
+  '.author',
+];
 
 export class ScrapingUtils {
-  static getHeroPageUrl(heroName: string) {
+  /**
+   * Builds the wiki URL of a hero page (or any other page title) from the
+   * wiki base URL of the hero's game, e.g. "https://marvelrivals.fandom.com/wiki/".
+   */
+  static getHeroPageUrl(wikiBaseUrl: string, heroName: string) {
     const formattedName = heroName.replace(/ /g, '_');
     const encodedName = encodeURIComponent(formattedName);
-    return `https://marvelrivals.fandom.com/wiki/${encodedName}`;
+    return `${wikiBaseUrl}${encodedName}`;
   }
 
-  static getHeroLoreSection(
+  /**
+   * Extracts heroes from the fandom Heroes page, one div#mr-main per role.
+   * @returns The number of role sections found, the parsed heroes and the
+   * gallery entries that had to be skipped.
+   */
+  static extractHeroList(
     logger: Logger,
-    heroName: string,
-    heroUrl: string,
-    heroPageData: string,
-  ) {
-    const $ = cheerio.load(heroPageData);
-
-    const loreBlockquotes = $('blockquote').filter((i, el) => {
-      const hasId = $(el).attr('id');
-      const hasClass = $(el).attr('class');
-      return !hasId && !hasClass;
-    });
-
-    if (loreBlockquotes.length === 0) {
-      logger.warn(
-        `No relevant blockquotes found for hero: ${heroName} at ${heroUrl}. Skipping...`,
-      );
-      return null;
+    heroesPageData: string,
+  ): { sections: number; heroes: ParsedHero[]; skipped: SkippedItem[] } {
+    const $ = cheerio.load(heroesPageData);
+    const heroes: ParsedHero[] = [];
+    const skipped: SkippedItem[] = [];
+
+    const mrMainDivs = $('div#mr-main');
+    logger.log(`Found ${mrMainDivs.length} div#mr-main elements.`);
+
+    if (mrMainDivs.length === 0) {
+      logger.warn('No div#mr-main elements found on the page.');
+      return { sections: 0, heroes, skipped };
     }
 
-    let loreContent = '';
-    let biographyFound = false;
-
-    loreBlockquotes.each((i, blockquote) => {
-      const pTags = $(blockquote).find('p');
-      const lastP = pTags.last();
-      const lastPText = lastP.text().trim();
-
-      if (lastPText === '— Biography') {
-        // Exclude the last p tag containing '— Biography'
-        pTags.slice(0, -1).each((j, p) => {
-          const paragraph = $(p).text().trim();
-          if (paragraph) {
-            loreContent += paragraph + '\n\n';
-          }
+    mrMainDivs.each((i, mrMainDiv) => {
+      const section = $(mrMainDiv);
+
+      const heroType = section
+        .find('h3 .mw-headline')
+        .first()
+        .text()
+        .trim()
+        .toLowerCase();
+      if (!heroType) {
+        logger.warn(
+          `No hero_type found in div#mr-main index ${i}. Skipping...`,
+        );
+        skipped.push({
+          key: `div#mr-main[${i}]`,
+          reason: 'No hero type found',
         });
-        biographyFound = true;
-        return false; // Break out of the loop once the correct blockquote is found
+        return;
       }
-    });
 
-    if (!biographyFound) {
-      logger.warn(
-        `No blockquote ending with '— Biography' found for hero: ${heroName} at ${heroUrl}. Skipping...`,
+      logger.log(
+        `Processing hero type: ${heroType} in div#mr-main index ${i}.`,
       );
-      return null;
-    }
-
-    // Clean up the lore content
-    loreContent = loreContent.trim();
 
-    if (!loreContent) {
-      logger.warn(
-        `Empty lore content found for hero: ${heroName} at ${heroUrl}. Skipping...`,
+      const galleryWrappers = section.find('div.gallery-image-wrapper.accent');
+      logger.log(
+        `Found ${galleryWrappers.length} heroes in hero type ${heroType}.`,
       );
-      return null;
-    }
 
-    return loreContent;
+      galleryWrappers.each((j, wrapper) => {
+        const wrapperDiv = $(wrapper);
+
+        const heroId = wrapperDiv.attr('id')?.trim();
+        if (!heroId) {
+          logger.warn(
+            `No hero ID found for hero in hero type ${heroType}, index ${j}. Skipping...`,
+          );
+          skipped.push({
+            key: `${heroType}[${j}]`,
+            reason: 'No hero ID found',
+          });
+          return;
+        }
+
+        // Gallery images are lazy-loaded, so the real URL lives in data-src;
+        // on pages rendered in a browser the loader has already moved it to src
+        const img = wrapperDiv.find('img.thumbimage').first();
+        const src = img.attr('src')?.trim();
+        const imageUrl =
+          img.attr('data-src')?.trim() ||
+          (/^https?:\/\//.test(src ?? '') ? src : undefined);
+        const titleAttr = img.attr('title')?.trim();
+
+        if (!imageUrl) {
+          logger.warn(`No image URL found for hero ID ${heroId}. Skipping...`);
+          skipped.push({ key: heroId, reason: 'No image URL found' });
+          return;
+        }
+
+        if (!titleAttr) {
+          logger.warn(
+            `No title attribute found for hero ID ${heroId}. Skipping...`,
+          );
+          skipped.push({ key: heroId, reason: 'No title attribute found' });
+          return;
+        }
+
+        const nameMatch = titleAttr.match(/^(.+?)\s*\(/);
+        const heroName = nameMatch ? nameMatch[1].trim() : titleAttr;
+
+        if (!heroName) {
+          logger.warn(
+            `Could not parse hero name from title "${titleAttr}" for hero ID ${heroId}. Skipping...`,
+          );
+          skipped.push({
+            key: heroId,
+            reason: `Could not parse hero name from "${titleAttr}"`,
+          });
+          return;
+        }
+
+        logger.debug(
+          `Extracted hero: ID=${heroId}, Name=${heroName}, Image=${imageUrl}, Type=${heroType}`,
+        );
+
+        heroes.push({ name: heroName, image_url: imageUrl, type: heroType });
+      });
+    });
+
+    return { sections: mrMainDivs.length, heroes, skipped };
   }
 
   /**
-   * Extracts the health value from the lore content.
-   * @param $ - CheerioStatic instance
-   * @returns The health value as a number, or null if not found.
+   * Extracts the news cards (a.list-item) from a marvelrivals.com listing.
+   * @returns The number of cards found, the parsed items, the cards that
+   * had to be skipped and the absolute URL of the next listing page, if any.
    */
-  static extractHealth(logger: Logger, heroPageData: string): number | null {
-    const $ = cheerio.load(heroPageData);
-    const healthDiv = $('div[data-source="health"]');
-    if (healthDiv.length === 0) {
-      logger.warn('Health div not found.');
-      return null;
+  static extractNewsList(
+    logger: Logger,
+    newsPageData: string,
+    pageUrl: string,
+  ): {
+    found: number;
+    items: ParsedNewsItem[];
+    skipped: SkippedItem[];
+    nextPageUrl: string | null;
+  } {
+    const $ = cheerio.load(newsPageData);
+    const items: ParsedNewsItem[] = [];
+    const skipped: SkippedItem[] = [];
+    const nextPageUrl = this.extractNextPageUrl($, pageUrl);
+
+    const newsItems = $('a.list-item');
+
+    if (newsItems.length === 0) {
+      logger.warn(`No news items found on ${pageUrl}.`);
+      return { found: 0, items, skipped, nextPageUrl };
     }
+    logger.log(`Found ${newsItems.length} news items on ${pageUrl}.`);
 
-    const healthText = healthDiv.find('div.pi-data-value').text().trim();
-    const healthValue = parseInt(healthText, 10);
+    newsItems.each((index, element) => {
+      const anchor = $(element);
 
-    if (isNaN(healthValue)) {
-      logger.warn(`Invalid health value: "${healthText}"`);
-      return null;
-    }
+      const link = anchor.attr('href')?.trim();
+      if (!link) {
+        logger.warn('No link found for a news item. Skipping...');
+        skipped.push({ key: `${pageUrl}#${index}`, reason: 'No link found' });
+        return;
+      }
+
+      const imageUrl = anchor.find('div.img img').attr('src')?.trim() || null;
+
+      const title = anchor.find('div.text h2').text().trim();
+      if (!title) {
+        logger.warn(
+          `No title found for news item with link ${link}. Skipping...`,
+        );
+        skipped.push({ key: link, reason: 'No title found' });
+        return;
+      }
+
+      const description = anchor.find('div.text p').text().trim() || null;
+
+      const publishedAt =
+        this.parseNewsDate(anchor.find('span.time').text()) ??
+        this.parseNewsDate(link.match(/\/(\d{8})\//)?.[1] ?? '');
+
+      items.push({
+        url: link,
+        title,
+        content: description,
+        image_url: imageUrl,
+        published_at: publishedAt,
+      });
+    });
 
-    return healthValue;
+    return { found: newsItems.length, items, skipped, nextPageUrl };
+  }
+
+  // The last page still renders a "next" link, pointing to javascript:; or
+  // back at itself
+  private static extractNextPageUrl(
+    $: CheerioAPI,
+    pageUrl: string,
+  ): string | null {
+    for (const selector of NEXT_PAGE_SELECTORS) {
+      const href = $(selector).first().attr('href')?.trim();
+      if (!href) {
+        continue;
+      }
+
+      try {
+        const url = new URL(href, pageUrl);
+        if (
+          (url.protocol === 'http:' || url.protocol === 'https:') &&
+          url.toString() !== new URL(pageUrl).toString()
+        ) {
+          return url.toString();
+        }
+      } catch {
+        // Not a URL; try the next selector
+      }
+    }
+    return null;
   }
 
   /**
-   * Extracts the difficulty value from the HTML.
-   * @param $ - CheerioStatic instance
-   * @returns The difficulty value as a number (1-5), or null if not found.
+   * Extracts the body, publication date, author and images of a news article
+   * page. The body is returned as sanitized HTML and as Markdown.
+   * @returns null when no article body is found.
    */
-  static extractDifficulty(
+  static extractNewsArticle(
     logger: Logger,
-    heroPageData: string,
-  ): number | null {
-    const $ = cheerio.load(heroPageData);
-    const difficultyDiv = $('div[data-source="difficulty"]');
-    if (difficultyDiv.length === 0) {
-      logger.warn('Difficulty div not found.');
+    articlePageData: string,
+    articleUrl: string,
+  ): ParsedNewsArticle | null {
+    const $ = cheerio.load(articlePageData);
+
+    const body = ARTICLE_BODY_SELECTORS.map((selector) =>
+      $(selector).first(),
+    ).find((element) => element.length > 0);
+    if (!body) {
+      logger.warn(`No article body found on ${articleUrl}.`);
       return null;
     }
 
-    const starImages = difficultyDiv.find('img');
-    let difficulty = 0;
-
-    starImages.each((i, img) => {
-      const src = $(img).attr('alt') || '';
-      if (src === 'StarFull') {
-        difficulty += 1;
+    // The title and date are often repeated inside the body container, next
+    // to share buttons
+    const title =
+      $('.art-title, h1').first().text().replace(/\s+/g, ' ').trim() || null;
+    body.find('.art-title, h1, .art-time, .art-author, .share').remove();
+
+    let publishedAt: Date | null = null;
+    for (const selector of ARTICLE_DATE_SELECTORS) {
+      const element = $(selector).first();
+      publishedAt = this.parseNewsDate(
+        element.attr('content') ?? element.attr('datetime') ?? element.text(),
+      );
+      if (publishedAt) {
+        break;
       }
-    });
-
-    if (difficulty < 1 || difficulty > 5) {
-      logger.warn(`Unexpected difficulty value: ${difficulty}`);
-      return null;
     }
 
-    return difficulty;
-  }
+    let author: string | null = null;
+    for (const selector of ARTICLE_AUTHOR_SELECTORS) {
+      const element = $(selector).first();
+      author =
+        (element.attr('content') ?? element.text())
+          .replace(/^\s*(by|author)[:\s]+/i, '')
+          .replace(/\s+/g, ' ')
+          .trim() || null;
+      if (author) {
+        break;
+      }
+    }
 
-  static generateStats(logger: Logger, heroPageData: string) {
-    const health = this.extractHealth(logger, heroPageData);
-    const difficulty = this.extractDifficulty(logger, heroPageData);
+    const bodyHtml = HtmlUtils.sanitize(body.html() ?? '', articleUrl);
 
     return {
-      health,
-      difficulty,
+      title,
+      body_html: bodyHtml,
+      body_markdown: HtmlUtils.toMarkdown(bodyHtml),
+      published_at: publishedAt,
+      author,
+      images: HtmlUtils.extractImages(bodyHtml),
     };
   }
 
   /**
-   * Extracts abilities from the given <aside> element.
-   * @param aside - CheerioElement representing the <aside>
-   * @param $ - CheerioStatic instance
-   * @returns An array of ability objects.
+   * Parses the date formats used on marvelrivals.com ("2024/12/06",
+   * "2024-12-06", "20241206") as well as ISO timestamps.
+   * @returns The date at midnight UTC for date-only values, or null.
    */
-  static extractAbilitiesFromAside(
-    aside: cheerio.BasicAcceptedElems<AnyNode>,
-    $: cheerio.CheerioAPI,
-    logger: Logger,
-  ): Array<{
-    name: string;
-    type: string;
-    description: string;
-    stats: Record<string, any>;
-  }> {
-    const abilities: Array<{
-      name: string;
-      type: string;
-      description: string;
-      stats: Record<string, any>;
-    }> = [];
-
-    const abilityName = $(aside).find('h2[data-source="name"]').text().trim();
-    const type = $(aside)
-      .find('td[data-source="keybind"]')
-      .text()
-      .replace('<b>', '')
-      .replace('</b>', '')
-      .trim();
-    const description = $(aside)
-      .find('div[data-source="description"]')
-      .text()
-      .replace(/<i>|<\/i>/g, '')
-      .trim();
-
-    // Initialize stats object
-    const stats: Record<string, any> = {};
-
-    // Extract stat tables
-    $(aside)
-      .find('section.pi-item.pi-group.pi-border-color')
-      .each((i, section) => {
-        const table = $(section).find('table.pi-horizontal-group').first();
-        if (table.length === 0) return;
-
-        const headers = table
-          .find(
-            'th.pi-horizontal-group-item.pi-data-label.pi-secondary-font.pi-border-color.pi-item-spacing',
-          )
-          .map((i, th) =>
-            $(th).text().trim().toLowerCase().replace(/\s+/g, '_'),
-          )
-          .get();
-
-        const values = table
-          .find(
-            'td.pi-horizontal-group-item.pi-data-value.pi-font.pi-border-color.pi-item-spacing',
-          )
-          .map((i, td) => $(td).text().trim())
-          .get();
-
-        headers.forEach((header, index) => {
-          if (header && values[index]) {
-            // Convert headers to camelCase for consistency
-            const camelCaseKey = header.replace(/_(.)/g, (_, chr) =>
-              chr.toUpperCase(),
-            );
-            stats[camelCaseKey] = values[index];
-          }
-        });
-      });
-
-    // Extract additional properties if available
-    const propertiesDiv = $(aside).find('div[data-source="properties"]');
-    if (propertiesDiv.length > 0) {
-      // Target only the inner div containing the properties description
-      const innerPropertiesDiv = propertiesDiv
-        .find('div.pi-data-value.pi-font')
-        .first();
-      if (innerPropertiesDiv.length > 0) {
-        // Replace multiple spaces and newlines with single spaces for cleanliness
-        const propertiesText =
-          innerPropertiesDiv
-            .html()
-            ?.replace(/<\/?[^>]+(>|$)/g, '') // Remove any remaining HTML tags
-            .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-            .trim() || '';
-
-        stats['properties'] = propertiesText;
-      } else {
-        logger.warn(
-          `Properties description div not found within properties for ability: ${abilityName}`,
-        );
-      }
+  static parseNewsDate(text: string | undefined): Date | null {
+    const value = text?.trim();
+    if (!value) {
+      return null;
     }
 
-    abilities.push({
-      name: abilityName,
-      type,
-      description,
-      stats,
-    });
-
-    return abilities;
+    const dateOnly = value.match(
+      /^(\d{4})[/.-]?(\d{2})[/.-]?(\d{2})(?:\s+(\d{1,2}):(\d{2}))?$/,
+    );
+    const date = dateOnly
+      ? new Date(
+          Date.UTC(
+            Number(dateOnly[1]),
+            Number(dateOnly[2]) - 1,
+            Number(dateOnly[3]),
+            Number(dateOnly[4] ?? 0),
+            Number(dateOnly[5] ?? 0),
+          ),
+        )
+      : new Date(value);
+
+    if (Number.isNaN(date.getTime()) || date.getUTCFullYear() < 2000) {
+      return null;
+    }
+    // Reject rolled-over values such as 2024/13/40
+    if (dateOnly && date.getUTCMonth() !== Number(dateOnly[2]) - 1) {
+      return null;
+    }
+    return date;
   }
 
-  static extractAbilities(
-    logger: Logger,
+  /**
+   * Reads the hero infobox into stats, one InfoboxField at a time. A field
+   * missing from the page is null; a field that is present but cannot be
+   * read as its type is null too and listed in `unparseable`.
+   */
+  static extractHeroStats(
     heroPageData: string,
-    heroId: string,
-  ) {
+    fields: InfoboxField[],
+  ): HeroStatsExtraction {
     const $ = cheerio.load(heroPageData);
-    const skillTable = $('table.wikitable.skill-table').first();
+    // Ability infoboxes on legacy pages sit inside the ability table
+    const infoboxes = $('aside.portable-infobox').not('.fandom-table aside');
+    const stats = emptyHeroStats();
+    const unparseable: UnparseableStat[] = [];
+
+    for (const field of fields) {
+      const source = field.sources.find(
+        (source) => infoboxes.find(`[data-source="${source}"]`).length > 0,
+      );
+      if (!source) {
+        continue;
+      }
 
-    if (skillTable.length > 0) {
-      return this.extractNewFormatAbilities($, skillTable, heroId);
-    } else {
-      return this.extractLegacyAbilities($, heroId);
+      const item = infoboxes.find(`[data-source="${source}"]`).first();
+      const value = item.is('.pi-data-value, td')
+        ? item
+        : item.find('.pi-data-value').first();
+      const element = value.length ? value : item;
+      const raw = element.text().replace(/\s+/g, ' ').trim();
+
+      try {
+        stats[field.key] = this.parseInfoboxValue($, element, raw, field);
+      } catch (error) {
+        stats[field.key] = field.type === InfoboxFieldType.List ? [] : null;
+        unparseable.push({
+          key: field.key,
+          source,
+          raw,
+          reason: error.message,
+        });
+      }
     }
+
+    return { stats, unparseable };
   }
 
-  private static capitalizeWords(text: string): string {
-    return text
-      .toLowerCase()
-      .split(' ')
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
+  /**
+   * Splits an infobox value into its list items, links or the values
+   * separated by line breaks, commas or semicolons.
+   */
+  static splitInfoboxList($: CheerioAPI, element: AnyNode | undefined) {
+    if (!element) {
+      return [];
+    }
+    const items = $(element).find('li');
+    const values = items.length
+      ? items.toArray().map((item) => $(item).text())
+      : ($(element).html() ?? '')
+          .split(/<br\s*\/?>/i)
+          .flatMap((part) => $(`<div>${part}</div>`).text().split(/[,;]/));
+    return [
+      ...new Set(
+        values
+          .map((value) => value.replace(/\s+/g, ' ').trim())
+          .filter((value) => value),
+      ),
+    ];
   }
 
-  private static extractNewFormatAbilities(
+  // Throws with the reason when `raw` is not a valid value of the field
+  private static parseInfoboxValue(
     $: CheerioAPI,
-    skillTable: any,
-    heroId: string,
-  ) {
-    const abilityRows = skillTable.find('tbody > tr');
-    const abilitiesToInsert: Array<{
-      hero_id: string;
-      name: string;
-      type: string;
-      description: string;
-      stats: Record<string, any>;
-    }> = [];
-
-    let currentAbility = null;
-
-    abilityRows.each((i, tr) => {
-      const tds = $(tr).find('td');
-
-      // Check if this is a row containing type and name (has exactly 3 td elements)
-      if (tds.length === 3) {
-        // Get the type from the first td
-        let type = '';
-        const typeCell = tds.first();
-
-        // Check for image with title (LMB/RMB case)
-        const typeImg = typeCell.find('img');
-        if (typeImg.length > 0) {
-          let imgTitle = typeImg.attr('title');
-          if (!imgTitle) {
-            imgTitle = typeImg.attr('alt');
-          }
-          if (imgTitle === 'Left mouse button') {
-            type = 'Left Mouse Button';
-          } else if (imgTitle === 'Right mouse button') {
-            type = 'Right Mouse Button';
-          }
-        } else {
-          // If no image, get the text content
-          type = typeCell.text().trim().toUpperCase();
-        }
+    element: cheerio.Cheerio<AnyNode>,
+    raw: string,
+    { key, type }: InfoboxField,
+  ): HeroStatValue {
+    if (type === InfoboxFieldType.List) {
+      return this.splitInfoboxList($, element.get(0));
+    }
+    if (type === InfoboxFieldType.Stars) {
+      const stars = element
+        .find('img')
+        .toArray()
+        .map((img) => $(img).attr('alt') || $(img).attr('title') || '')
+        .filter((alt) => /^Star/i.test(alt));
+      if (stars.length === 0) {
+        throw new Error('expected star icons');
+      }
+      return this.requireInRange(
+        key,
+        stars.filter((alt) => /^StarFull/i.test(alt)).length,
+      );
+    }
+    if (!raw) {
+      return null;
+    }
 
-        // Get the name from the last td
-        const name = this.capitalizeWords(tds.last().text().trim());
-
-        // Initialize a new ability
-        currentAbility = {
-          name,
-          type,
-          description: '',
-          stats: {},
-        };
-
-        abilitiesToInsert.push({
-          hero_id: heroId,
-          name: currentAbility.name,
-          type: currentAbility.type,
-          description: currentAbility.description,
-          stats: currentAbility.stats,
-        });
+    switch (type) {
+      case InfoboxFieldType.Text:
+        return raw;
+      case InfoboxFieldType.Integer:
+      case InfoboxFieldType.Number: {
+        const match = raw.replace(/(\d),(?=\d{3}\b)/g, '$1').match(NUMBER);
+        const value = match ? Number(match[1]) : NaN;
+        if (Number.isNaN(value)) {
+          throw new Error('expected a number');
+        }
+        if (type === InfoboxFieldType.Integer && !Number.isInteger(value)) {
+          throw new Error('expected a whole number');
+        }
+        return this.requireInRange(key, value);
       }
-      // Handle description and stats rows
-      else if (
-        currentAbility &&
-        tds.length === 1 &&
-        tds.attr('colspan') === '3'
-      ) {
-        const td = tds.first();
-        const content = td.html();
-
-        if (content) {
-          // Extract description from <small><i> tags
-          const description = td.find('small i').text().trim();
-          if (description) {
-            currentAbility.description = description;
-            abilitiesToInsert[abilitiesToInsert.length - 1].description =
-              description;
-          }
-
-          // Extract stats
-          td.find('b').each((_, elem) => {
-            const fullText = $(elem).text().trim();
-            const separatorIndex = fullText.indexOf(' - ');
-
-            if (separatorIndex !== -1) {
-              const key = fullText
-                .substring(0, separatorIndex)
-                .toLowerCase()
-                .replace(/ /g, '_')
-                .replace(/_-$/, '');
-              const value = fullText.substring(separatorIndex + 3).trim();
-              if (key && value) {
-                currentAbility.stats[key] = value;
-              }
-            } else {
-              // Handle special effects or other stats without the ' - ' separator
-              const nextText = elem.nextSibling
-                ? $(elem.nextSibling).text().trim()
-                : '';
-              if (nextText) {
-                const key = fullText
-                  .replace(/:$/, '')
-                  .toLowerCase()
-                  .replace(/ /g, '_')
-                  .replace(/_-$/, '');
-                if (key) {
-                  currentAbility.stats[key] = nextText;
-                }
-              }
-            }
-          });
+      case InfoboxFieldType.Date: {
+        const date = this.parseInfoboxDate(raw);
+        if (!date) {
+          throw new Error('expected a date');
         }
+        return date;
       }
-    });
-
-    return abilitiesToInsert;
+    }
   }
 
-  private static extractLegacyAbilities($: CheerioAPI, heroId: string) {
-    const abilities: Array<{
-      hero_id: string;
-      name: string;
-      type: string;
-      description: string;
-      stats: Record<string, any>;
-    }> = [];
-
-    $('.fandom-table tbody tr td aside').each((_, aside) => {
-      const ability = {
-        hero_id: heroId,
-        name: '',
-        type: '',
-        description: '',
-        stats: {},
-      };
-
-      const name = this.capitalizeWords(
-        $(aside).find('.pi-title').text().trim(),
+  private static requireInRange(key: string, value: number): number {
+    const range = HERO_STAT_RANGES[key];
+    if (
+      range &&
+      (value < range.min || (range.max !== undefined && value > range.max))
+    ) {
+      throw new Error(
+        range.max === undefined
+          ? `expected at least ${range.min}`
+          : `expected between ${range.min} and ${range.max}`,
       );
-      ability.name = name;
-
-      // Extract and map the type
-      const rawType = $(aside).find('td[data-source="keybind"]').text().trim();
-
-      // Map the type based on the raw value
-      ability.type = this.mapAbilityType(rawType);
-
-      const description = $(aside)
-        .find('.pi-data[data-source="description"] .pi-data-value')
-        .text()
-        .trim();
-      ability.description = description;
-
-      // Extract all stats from horizontal groups
-      $(aside)
-        .find('.pi-horizontal-group')
-        .each((_, group) => {
-          const labels = $(group).find('.pi-data-label');
-          const values = $(group).find('.pi-data-value');
-
-          labels.each((i, label) => {
-            const key = $(label).text().trim().toLowerCase().replace(/ /g, '_');
-            const value = $(values.get(i)).text().trim();
-            if (key && value) {
-              ability.stats[key] = value;
-            }
-          });
-        });
-
-      // Extract properties if they exist
-      const properties = $(aside)
-        .find('.pi-data[data-source="properties"] .pi-data-value')
-        .text()
-        .trim();
-      if (properties) {
-        ability.stats['properties'] = properties;
-      }
+    }
+    return value;
+  }
 
-      abilities.push(ability);
-    });
+  /**
+   * Reads dates such as "December 6, 2024", "6 December 2024" or
+   * "2024-12-06", ignoring text around them.
+   * @returns The date as YYYY-MM-DD, or null.
+   */
+  private static parseInfoboxDate(text: string): string | null {
+    const numeric = text.match(/\b\d{4}[/.-]\d{2}[/.-]\d{2}\b/);
+    if (numeric) {
+      return this.parseNewsDate(numeric[0])?.toISOString().slice(0, 10) ?? null;
+    }
 
-    return abilities;
+    const written =
+      text.match(/\b[A-Z][a-z]+\.? \d{1,2}(?:st|nd|rd|th)?,? \d{4}\b/) ??
+      text.match(/\b\d{1,2}(?:st|nd|rd|th)? [A-Z][a-z]+\.?,? \d{4}\b/);
+    if (!written) {
+      return null;
+    }
+    const date = new Date(
+      `${written[0].replace(/(\d)(?:st|nd|rd|th)/, '$1')} UTC`,
+    );
+    return Number.isNaN(date.getTime())
+      ? null
+      : date.toISOString().slice(0, 10);
   }
 
-  private static mapAbilityType(rawType: string): string {
-    const typeMap: Record<string, string> = {
-      'Primary 1': 'Left Mouse Button',
-      'Primary 2': 'Right Mouse Button',
-      Primary: 'Left Mouse Button',
-      Q: 'Q',
-      E: 'E',
-      F: 'F',
-      Passive: 'Passive',
-      'Left Shift': 'Left Shift',
-    };
-
-    return typeMap[rawType] || rawType;
+  /**
+   * Turns the abilities a parser plugin read from a hero page into rows of
+   * `marvel_rivals_abilities`.
+   */
+  static buildAbilities(
+    heroId: string,
+    parsed: ParsedAbility[],
+    parserVersion: string,
+  ): Ability[] {
+    return parsed.map((ability) => ({
+      hero_id: heroId,
+      ...ability,
+      slug: abilitySlug(ability.name),
+      stats: AbilityStatsUtils.normalize(ability.stats),
+      team_up: isTeamUpAbility(ability.type),
+      retired_at: null,
+      parser_version: parserVersion,
+    }));
   }
 }
@@ -0,0 +1,20 @@
+-- One row per scrape job run, see ScrapeRunsService
+create table if not exists scrape_runs (
+  id uuid primary key default gen_random_uuid(),
+  job text not null,
+  trigger text not null,
+  status text not null,
+  started_at timestamptz not null,
+  finished_at timestamptz,
+  duration_ms integer,
+  inserted_count integer not null default 0,
+  updated_count integer not null default 0,
+  skipped_count integer not null default 0,
+  invalid_count integer not null default 0,
+  failed_count integer not null default 0,
+  items jsonb not null default '[]'::jsonb,
+  error text
+);
+
+create index if not exists scrape_runs_job_started_at_idx
+  on scrape_runs (job, started_at desc);
@@ -0,0 +1,3 @@
+-- Layout drift warnings raised during a run, see LayoutDriftService
+alter table scrape_runs
+  add column if not exists warnings jsonb not null default '[]'::jsonb;
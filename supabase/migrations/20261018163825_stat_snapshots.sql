@@ -0,0 +1,20 @@
+-- Versioned hero and ability stats, see HistoryService. entity_key is the
+-- hero id, or "<hero id>:<ability>" for abilities.
+create table if not exists stat_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null,
+  entity_key text not null,
+  hero_id uuid not null references marvel_rivals_heroes (id) on delete cascade,
+  ability_name text,
+  version integer not null,
+  stats jsonb not null,
+  changes jsonb,
+  run_id uuid references scrape_runs (id) on delete set null,
+  captured_at timestamptz not null default now(),
+  unique (entity_type, entity_key, version)
+);
+
+create index if not exists stat_snapshots_hero_id_captured_at_idx
+  on stat_snapshots (hero_id, captured_at desc);
+create index if not exists stat_snapshots_captured_at_idx
+  on stat_snapshots (captured_at desc);
@@ -0,0 +1,32 @@
+-- Abilities are keyed by hero and slug instead of by name, so two heroes can
+-- have an ability with the same name. See abilitySlug().
+alter table marvel_rivals_abilities
+  add column if not exists slug text,
+  add column if not exists team_up boolean not null default false,
+  add column if not exists retired_at timestamptz;
+
+-- Matches abilitySlug() for names without accents; the next abilities scrape
+-- rewrites the rest
+update marvel_rivals_abilities
+set slug = trim(both '-' from regexp_replace(
+  lower(regexp_replace(name, '[''’]', '', 'g')), '[^a-z0-9]+', '-', 'g'
+))
+where slug is null;
+
+update marvel_rivals_abilities
+set team_up = true
+where type ~* 'team[[:space:]-]?up';
+
+alter table marvel_rivals_abilities
+  alter column slug set not null,
+  drop constraint if exists marvel_rivals_abilities_name_key,
+  add constraint marvel_rivals_abilities_hero_id_slug_key
+    unique (hero_id, slug);
+
+-- Retirement sweeps the active abilities of one hero
+create index if not exists marvel_rivals_abilities_active_idx
+  on marvel_rivals_abilities (hero_id)
+  where retired_at is null;
+
+alter table scrape_runs
+  add column if not exists retired_count integer not null default 0;
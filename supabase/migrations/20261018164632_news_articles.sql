@@ -0,0 +1,8 @@
+-- Full article bodies. content_hash is null until an article has been
+-- stored completely, so a null hash gets it reprocessed.
+alter table news
+  add column if not exists body_html text,
+  add column if not exists body_markdown text,
+  add column if not exists author text,
+  add column if not exists images text[] not null default '{}',
+  add column if not exists content_hash text;
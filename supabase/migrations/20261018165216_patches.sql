@@ -0,0 +1,50 @@
+-- Structured patch notes parsed from game update articles, see
+-- PatchesService
+create table if not exists patches (
+  id uuid primary key default gen_random_uuid(),
+  news_url text not null unique references news (url) on delete cascade,
+  version text,
+  title text not null,
+  published_at timestamptz not null
+);
+
+create index if not exists patches_published_at_idx
+  on patches (published_at desc);
+
+create table if not exists patch_entries (
+  id uuid primary key default gen_random_uuid(),
+  patch_id uuid not null references patches (id) on delete cascade,
+  position integer not null,
+  hero_id uuid references marvel_rivals_heroes (id) on delete set null,
+  ability_id uuid references marvel_rivals_abilities (id) on delete set null,
+  hero_name text,
+  ability_name text,
+  stat text,
+  old_value text,
+  new_value text,
+  change_type text not null,
+  description text not null
+);
+
+create index if not exists patch_entries_patch_id_position_idx
+  on patch_entries (patch_id, position);
+
+-- Replaces the entries of a patch in one transaction, so a failed re-parse
+-- never leaves a patch without its entries
+create or replace function replace_patch_entries(
+  target_patch_id uuid,
+  entries jsonb
+) returns void
+language sql
+as $$
+  delete from patch_entries where patch_id = target_patch_id;
+
+  insert into patch_entries (
+    patch_id, position, hero_id, ability_id, hero_name, ability_name, stat,
+    old_value, new_value, change_type, description
+  )
+  select
+    target_patch_id, position, hero_id, ability_id, hero_name, ability_name,
+    stat, old_value, new_value, change_type, description
+  from jsonb_populate_recordset(null::patch_entries, entries);
+$$;
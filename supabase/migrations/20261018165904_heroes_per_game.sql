@@ -0,0 +1,5 @@
+-- Heroes are keyed by game and name now that several games can be scraped,
+-- see GameSourcesService
+alter table marvel_rivals_heroes
+  drop constraint if exists marvel_rivals_heroes_name_key,
+  add constraint marvel_rivals_heroes_game_id_name_key unique (game_id, name);
@@ -0,0 +1,8 @@
+-- The parser plugin that produced each row, e.g.
+-- "marvel-rivals/abilities-skill-table@1"; see parserVersion()
+alter table marvel_rivals_heroes
+  add column if not exists parser_version text;
+alter table marvel_rivals_abilities
+  add column if not exists parser_version text;
+alter table news
+  add column if not exists parser_version text;
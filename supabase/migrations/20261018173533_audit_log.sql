@@ -0,0 +1,13 @@
+-- Who did what through the protected endpoints, see AuditService
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor text not null,
+  role text not null,
+  auth_method text not null,
+  action text not null,
+  target text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx
+  on audit_log (created_at desc);
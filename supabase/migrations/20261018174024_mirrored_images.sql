@@ -0,0 +1,9 @@
+-- image_url points at our mirrored copy; the scraped URL is kept for
+-- attribution. thumbnails maps a size name to its URL. See
+-- ImageMirrorService.
+alter table marvel_rivals_heroes
+  add column if not exists original_image_url text,
+  add column if not exists thumbnails jsonb;
+alter table news
+  add column if not exists original_image_url text,
+  add column if not exists thumbnails jsonb;
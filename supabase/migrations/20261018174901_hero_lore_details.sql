@@ -0,0 +1,3 @@
+-- The structured hero profile, see HeroLore
+alter table marvel_rivals_heroes
+  add column if not exists lore_details jsonb;